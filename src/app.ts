@@ -0,0 +1,410 @@
+import express, { Request, Response, NextFunction, Express } from 'express';
+import cors from 'cors';
+import { isDeepStrictEqual } from 'util';
+import { systemClock } from './clock';
+import { LRUCache } from './cache/LRUCache';
+import { RedisCacheStore } from './cache/RedisCacheStore';
+import { RespClient } from './cache/resp/RespClient';
+import { RateLimiter } from './middleware/rateLimiter';
+import { RateLimitPolicyEngine, apiKeyTierResolver } from './middleware/rateLimitPolicy';
+import {
+  ClientIdExtractor,
+  apiKeyExtractor,
+  bearerSubjectExtractor,
+  chainExtractors,
+  ipExtractor
+} from './middleware/clientIdentity';
+import { RedisRateLimitStore } from './middleware/stores/RedisRateLimitStore';
+import { MemoryRateLimitStore } from './middleware/stores/MemoryRateLimitStore';
+import { DatabaseService } from './services/DatabaseService';
+import { createConcurrencyLimit } from './services/concurrency';
+import { CircuitBreaker } from './services/CircuitBreaker';
+import { FileUserRepository } from './repositories/FileUserRepository';
+import { InMemoryUserRepository } from './repositories/InMemoryUserRepository';
+import {
+  User,
+  ApiResponse,
+  AppOptions,
+  AppSettings,
+  CacheStore,
+  ClientTier,
+  ConfigReloadResult,
+  RateLimitRule,
+  ResolvedRateLimitPolicy
+} from './types';
+import { ConfigLayer, DEFAULT_SETTINGS, RELOADABLE_SETTINGS, SETTING_NAMES, redactSettings, resolveSettings } from './config';
+import { createUsersRouter } from './routes/users';
+import { createCacheRouter } from './routes/cache';
+import { createRateLimitsRouter } from './routes/rateLimits';
+import { createMetricsRouter } from './routes/metrics';
+import { MetricsRegistry } from './metrics/registry';
+import { httpMetrics, instrumentCache, instrumentQueue, instrumentRateLimiter } from './metrics/instrumentation';
+import { requireAdminToken } from './middleware/adminAuth';
+import { requestId } from './middleware/requestId';
+import { configureLogging, createLogger } from './logging/logger';
+import { currentLogContext, runWithLogContext } from './logging/context';
+
+const log = createLogger('http');
+
+// Defaults of every setting (see src/config/schema.ts)
+export const DEFAULT_APP_SETTINGS: AppSettings = DEFAULT_SETTINGS;
+
+// A built app and the services behind it
+export interface AppInstance {
+  app: Express;
+  settings: AppSettings;
+  userCache: CacheStore<User>;
+  rateLimiter: RateLimiter;
+  dbService: DatabaseService;
+  metrics: MetricsRegistry;
+  // Applies changed rate limits and cache TTL to the running app, keeping
+  // counters, cached entries and in-flight requests. Other changes are
+  // validated and reported but need a restart. Throws a ConfigError (and
+  // changes nothing) when the new settings are invalid.
+  reconfigure(options: Partial<AppSettings>): Promise<ConfigReloadResult>;
+  // Stops background timers and closes storage and connections
+  close(): Promise<void>;
+}
+
+function optionsLayer(options: Partial<AppSettings>, origin: string): ConfigLayer {
+  return { values: options, describe: () => origin };
+}
+
+// 60000 -> "60 seconds", 250 -> "250ms"
+function formatDuration(ms: number): string {
+  if (ms % 1000 !== 0) {
+    return `${ms}ms`;
+  }
+  return ms === 1000 ? '1 second' : `${ms / 1000} seconds`;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) {
+    return 'unbounded';
+  }
+  return bytes % (1024 * 1024) === 0 ? `${bytes / (1024 * 1024)} MB` : `${bytes} bytes`;
+}
+
+// "POST /users", "api-key clients"
+function describeRuleScope(rule: RateLimitRule): string {
+  return [rule.methods?.join(', '), rule.path, rule.tiers && `${rule.tiers.join(', ')} clients`]
+    .filter(Boolean)
+    .join(' ');
+}
+
+// "10 per 60 seconds, 5 burst per 10 seconds (POST /users), each request counts as 2"
+function describePolicy(policy: ResolvedRateLimitPolicy, rule: RateLimitRule | undefined): string {
+  const quota = `${policy.window.limit} per ${formatDuration(policy.window.windowMs)}, ` +
+    `${policy.burst.limit} burst per ${formatDuration(policy.burst.windowMs)}`;
+  const scope = rule ? ` (${describeRuleScope(rule)})` : '';
+  return policy.cost > 1 ? `${quota}${scope}, each request counts as ${policy.cost}` : `${quota}${scope}`;
+}
+
+// Builds the API without listening or registering signal handlers, so it can
+// be mounted in another app, served by server.ts, or driven by tests. Options
+// are validated like any other config source (throws a ConfigError). Log
+// levels and redaction are process-wide, like the console: the last app
+// built or reconfigured sets them.
+export function createApp(options: AppOptions = {}): AppInstance {
+  const { clock = systemClock, ...overrides } = options;
+  const settings: AppSettings = resolveSettings([optionsLayer(overrides, 'in createApp() options')]);
+  const app: Express = express();
+  configureLogging({ level: settings.logLevel, levels: settings.logLevels, redact: settings.logRedact });
+
+  // Initialize services
+  const redisClient = settings.redisUrl ? new RespClient(settings.redisUrl, settings.redisCommandTimeoutMs) : null;
+  // Stale entries are served for a while longer while refreshing in the
+  // background, and for longer still if the database is failing
+  const userCache: CacheStore<User> = redisClient
+    ? new RedisCacheStore<User>(redisClient, settings.cacheTtlMs, 'cache:', settings.cacheStaleWhileRevalidateMs, settings.cacheStaleIfErrorMs, clock)
+    : new LRUCache<User>(
+      settings.cacheMaxSize,
+      settings.cacheTtlMs,
+      settings.cacheStaleWhileRevalidateMs,
+      settings.cacheStaleIfErrorMs,
+      settings.cacheMaxBytes,
+      undefined,
+      settings.cacheEvictionPolicy,
+      clock,
+      settings.cacheCleanupIntervalMs
+    );
+
+  const apiKeys: Record<string, ClientTier> = {};
+  settings.apiKeys.forEach(key => { apiKeys[key] = 'api-key'; });
+  settings.internalApiKeys.forEach(key => { apiKeys[key] = 'internal'; });
+
+  const rateLimitRules: RateLimitRule[] = [
+    { name: 'internal', tiers: ['internal'], exempt: true },
+    { name: 'health', methods: ['GET'], path: '/health', exempt: true },
+    { name: 'docs', methods: ['GET'], path: '/', exempt: true },
+    { name: 'metrics', methods: ['GET'], path: '/metrics', exempt: true },
+    {
+      name: 'api-key',
+      tiers: ['api-key'],
+      maxRequests: settings.rateLimitApiKeyMaxRequests,
+      burstCapacity: settings.rateLimitApiKeyBurstCapacity
+    },
+    { name: 'user-writes', methods: ['POST'], path: '/users', cost: settings.rateLimitUserWriteCost },
+    { name: 'user-updates', methods: ['PUT', 'PATCH', 'DELETE'], path: '/users/:id', cost: settings.rateLimitUserUpdateCost }
+  ];
+  const rateLimitPolicies = new RateLimitPolicyEngine(rateLimitRules, apiKeyTierResolver(apiKeys));
+
+  // Identify clients by API key, then verified JWT subject, then IP address
+  const clientIdExtractors: ClientIdExtractor[] = [apiKeyExtractor(Object.keys(apiKeys))];
+  if (settings.jwtSecret) {
+    clientIdExtractors.push(bearerSubjectExtractor(settings.jwtSecret));
+  }
+  clientIdExtractors.push(typeof settings.trustedProxies === 'number'
+    ? ipExtractor({ hops: settings.trustedProxies })
+    : ipExtractor({ trustedProxies: settings.trustedProxies }));
+
+  const rateLimiter = new RateLimiter(
+    settings.rateLimitMaxRequests,
+    settings.rateLimitWindowMs,
+    settings.rateLimitBurstCapacity,
+    settings.rateLimitBurstWindowMs,
+    redisClient ? new RedisRateLimitStore(redisClient, 'ratelimit:', 1000, clock) : new MemoryRateLimitStore(clock),
+    settings.rateLimitAlgorithm,
+    rateLimitPolicies,
+    chainExtractors(...clientIdExtractors),
+    settings.rateLimitHeaders,
+    clock
+  );
+  // The database queue adapts its concurrency to job latency and sheds
+  // requests with a 503 once too many jobs are waiting. Reads are retried
+  // with backoff; after enough consecutive failures the circuit breaker
+  // fails calls fast for a while before letting a trial call through.
+  const dbService = new DatabaseService(
+    settings.usersFile ? new FileUserRepository(settings.usersFile) : new InMemoryUserRepository(),
+    settings.dbBatchSize,
+    createConcurrencyLimit(settings.dbConcurrencyLimit, settings.dbMaxConcurrency),
+    settings.dbTimeoutMs,
+    settings.dbMaxQueueLength,
+    new CircuitBreaker('database', settings.dbBreakerFailureThreshold, settings.dbBreakerResetMs, 1, clock),
+    { attempts: settings.dbRetryAttempts, baseDelayMs: settings.dbRetryBaseDelayMs, maxDelayMs: settings.dbRetryMaxDelayMs },
+    clock,
+    { readMs: settings.dbReadLatencyMs, writeMs: settings.dbWriteLatencyMs }
+  );
+
+  // OpenMetrics exporter, scraped at GET /metrics
+  const metrics = new MetricsRegistry();
+  instrumentCache(metrics, userCache);
+  instrumentRateLimiter(metrics, rateLimiter);
+  instrumentQueue(metrics, dbService);
+
+  // Middleware
+  app.use(cors());
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  // Trust only the configured proxies, so req.ip can't be spoofed with X-Forwarded-For
+  app.set('trust proxy', typeof settings.trustedProxies === 'number' || settings.trustedProxies.length > 0 ? settings.trustedProxies : false);
+
+  // X-Request-Id, in every log record written while the request runs. After
+  // the body parsers: their stream callbacks would lose the request's context.
+  app.use(requestId());
+
+  // Access log, written once the response is sent
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const startedAt = Date.now();
+    const context = currentLogContext() ?? {};
+    const { method, path, ip } = req;
+    res.on('finish', () => {
+      runWithLogContext(context, () => {
+        log.info('Request completed', { method, path, status: res.statusCode, durationMs: Date.now() - startedAt, ip });
+      });
+    });
+    next();
+  });
+
+  // Request duration histogram (ahead of rate limiting, so 429s are measured too)
+  app.use(httpMetrics(metrics));
+
+  // Apply rate limiting to all routes
+  app.use(rateLimiter.middleware());
+
+  // Response time tracking middleware
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    const startTime = Date.now();
+
+    // Override res.end to calculate and set response time before sending
+    const originalEnd = res.end;
+    res.end = function(chunk?: any, encoding?: any, cb?: any) {
+      const responseTime = Date.now() - startTime;
+      // Streaming responses (SSE) have already sent their headers
+      if (!res.headersSent) {
+        res.set('X-Response-Time', `${responseTime}ms`);
+      }
+      return originalEnd.call(this, chunk, encoding, cb);
+    };
+
+    next();
+  });
+
+  // Mount routes
+  app.use('/users', createUsersRouter(userCache, dbService, settings.cacheTtlJitter));
+  app.use('/cache', createCacheRouter(userCache, dbService));
+  app.use('/metrics', createMetricsRouter(metrics));
+
+  // Admin API is only mounted when an admin token is configured
+  if (settings.adminToken) {
+    app.use('/admin/rate-limits', requireAdminToken(settings.adminToken), createRateLimitsRouter(rateLimiter));
+  }
+
+  // GET /health - Health check endpoint
+  app.get('/health', (req: Request, res: Response) => {
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        status: 'healthy',
+        timestamp: Date.now(),
+        uptime: process.uptime()
+      },
+      timestamp: Date.now()
+    };
+    res.json(response);
+  });
+
+  // GET / - API documentation, built from the effective settings
+  app.get('/', (req: Request, res: Response) => {
+    // settings tracks reloads, so these are the quotas the limiter enforces
+    const policies = rateLimitPolicies.policies({
+      window: { limit: settings.rateLimitMaxRequests, windowMs: settings.rateLimitWindowMs },
+      burst: { limit: settings.rateLimitBurstCapacity, windowMs: settings.rateLimitBurstWindowMs }
+    });
+    const apiDoc = {
+      name: 'Express Async Rate Cache API',
+      version: '1.0.0',
+      description: 'High-performance Express.js API with advanced caching, rate limiting, and async processing',
+      endpoints: {
+        'GET /': 'API documentation',
+        'GET /health': 'Health check',
+        'GET /users': 'List users (?name=&email=&sort=-createdAt&limit=&cursor=)',
+        'GET /users?ids=1,2,3': 'Get several users by ID (cached, partial results)',
+        'GET /users/:id': 'Get user by ID (cached, ETag with 304 on If-None-Match)',
+        'POST /users': 'Create new user',
+        'POST /users/batch': 'Get several users by ID ({"ids": [1, 2, 3]})',
+        'PUT /users/:id': 'Replace a user (name and email)',
+        'PATCH /users/:id': 'Update some of a user\'s fields',
+        'DELETE /users/:id': 'Delete a user',
+        'DELETE /cache': 'Clear entire cache',
+        'DELETE /cache/keys/:key': 'Invalidate one cache entry',
+        'DELETE /cache/patterns/:pattern': 'Invalidate entries matching a glob (e.g. user:1*)',
+        'DELETE /cache/tags/:tag': 'Invalidate entries with a tag (e.g. users)',
+        'GET /cache/keys': 'Page through cache keys (?pattern=&cursor=&limit=)',
+        'GET /cache/events': 'Live stream of cache events (SSE, ?prefix=user:)',
+        'GET /cache/status': 'Get cache and queue statistics',
+        'GET /metrics': 'Cache, queue, rate limit and HTTP metrics (OpenMetrics)',
+        'GET /admin/rate-limits': 'List rate-limited clients and access list (admin)',
+        'DELETE /admin/rate-limits': 'Reset all rate limit counters (admin)',
+        'DELETE /admin/rate-limits/clients/:clientId': 'Reset one client (admin)',
+        'PUT /admin/rate-limits/access/:clientId': 'Temporarily allow or deny a client (admin)',
+        'DELETE /admin/rate-limits/access/:clientId': 'Remove an allow/deny entry (admin)'
+      },
+      rateLimiting: {
+        algorithm: settings.rateLimitAlgorithm,
+        requests: `${settings.rateLimitMaxRequests} per ${formatDuration(settings.rateLimitWindowMs)}`,
+        burst: `${settings.rateLimitBurstCapacity} requests per ${formatDuration(settings.rateLimitBurstWindowMs)}`,
+        policies: {
+          ...Object.fromEntries(policies.map(policy => [
+            policy.name,
+            describePolicy(policy, rateLimitRules.find(rule => rule.name === policy.name))
+          ])),
+          exempt: rateLimitRules.filter(rule => rule.exempt).map(describeRuleScope).join(', ')
+        }
+      },
+      caching: {
+        strategy: redisClient ? 'Shared Redis-protocol store with TTL' : 'In-process with TTL',
+        evictionPolicy: redisClient ? 'server maxmemory-policy' : settings.cacheEvictionPolicy,
+        ttl: formatDuration(settings.cacheTtlMs),
+        ttlJitter: `±${Math.round(settings.cacheTtlJitter * 1000) / 10}%`,
+        staleWhileRevalidate: formatDuration(settings.cacheStaleWhileRevalidateMs),
+        staleIfError: formatDuration(settings.cacheStaleIfErrorMs),
+        maxSize: redisClient ? 'server maxmemory' : `${settings.cacheMaxSize} items`,
+        maxBytes: redisClient ? 'server maxmemory' : formatBytes(settings.cacheMaxBytes)
+      },
+      queue: {
+        concurrencyLimit: `${settings.dbConcurrencyLimit}, up to ${settings.dbMaxConcurrency} concurrent jobs`,
+        maxQueueLength: `${settings.dbMaxQueueLength} jobs (503 with Retry-After beyond that)`,
+        requestTimeout: `${settings.dbTimeoutMs}ms`,
+        lanes: 'interactive first, then background (stale cache refreshes)',
+        batching: `ids requested in the same tick share one job (up to ${settings.dbBatchSize})`
+      },
+      resilience: {
+        retries: `reads tried up to ${settings.dbRetryAttempts} times, exponential backoff with full jitter ` +
+          `(${formatDuration(settings.dbRetryBaseDelayMs)} base, ${formatDuration(settings.dbRetryMaxDelayMs)} cap)`,
+        circuitBreaker: `opens after ${settings.dbBreakerFailureThreshold} consecutive failures, half-open after ${settings.dbBreakerResetMs}ms`,
+        errors: 'not found 404, database unavailable or circuit open 503 (with Retry-After), request timeout 504'
+      },
+      logging: {
+        format: 'JSON lines (warn and error on stderr)',
+        level: settings.logLevel,
+        moduleLevels: settings.logLevels,
+        requestIds: 'X-Request-Id is taken from the request (or generated), echoed, and logged with every record, including the queue jobs it waits on'
+      },
+      // Secrets are redacted; only these settings change on reload
+      config: {
+        effective: redactSettings(settings),
+        reloadable: RELOADABLE_SETTINGS
+      }
+    };
+
+    res.json(apiDoc);
+  });
+
+  // 404 handler
+  app.use('*', (req: Request, res: Response) => {
+    const response: ApiResponse = {
+      success: false,
+      error: `Route ${req.method} ${req.originalUrl} not found`,
+      timestamp: Date.now()
+    };
+    res.status(404).json(response);
+  });
+
+  // Global error handler
+  app.use((error: Error, req: Request, res: Response, next: NextFunction) => {
+    log.error('Unhandled error', { method: req.method, path: req.path, error });
+
+    const response: ApiResponse = {
+      success: false,
+      error: 'Internal server error',
+      timestamp: Date.now()
+    };
+
+    res.status(500).json(response);
+  });
+
+  return {
+    app,
+    settings,
+    userCache,
+    rateLimiter,
+    dbService,
+    metrics,
+    reconfigure: async (changes: Partial<AppSettings>): Promise<ConfigReloadResult> => {
+      const next = resolveSettings([optionsLayer(settings, 'currently'), optionsLayer(changes, 'in new settings')]);
+      const changed = SETTING_NAMES.filter(name => !isDeepStrictEqual(settings[name], next[name]));
+      const applied = changed.filter(name => RELOADABLE_SETTINGS.includes(name));
+
+      if (applied.some(name => name.startsWith('rateLimit'))) {
+        rateLimiter.setLimits(next.rateLimitMaxRequests, next.rateLimitWindowMs, next.rateLimitBurstCapacity, next.rateLimitBurstWindowMs);
+      }
+      if (applied.includes('cacheTtlMs')) {
+        await userCache.setTtl(next.cacheTtlMs);
+      }
+      if (applied.some(name => name.startsWith('log'))) {
+        configureLogging({ level: next.logLevel, levels: next.logLevels, redact: next.logRedact });
+      }
+      // The docs endpoint reads the same object, so it reports the new values
+      Object.assign(settings, Object.fromEntries(applied.map(name => [name, next[name]])));
+
+      return { applied, restartRequired: changed.filter(name => !applied.includes(name)) };
+    },
+    close: async () => {
+      await userCache.destroy();
+      await rateLimiter.destroy();
+      await dbService.destroy();
+    }
+  };
+}
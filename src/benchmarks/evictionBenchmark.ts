@@ -0,0 +1,108 @@
+import { LRUCache } from '../cache/LRUCache';
+import { EvictionPolicyName } from '../types';
+
+// Replays synthetic key traces against LRUCache with each eviction policy and
+// prints the hit ratios. Run with: pnpm benchmark:eviction [capacity] [requests]
+
+const POLICIES: EvictionPolicyName[] = ['lru', 'lfu', 'w-tinylfu', 'arc', 'fifo'];
+const capacity = parseInt(process.argv[2] || '500');
+const requests = parseInt(process.argv[3] || '50000');
+const keySpace = capacity * 20;
+
+// Small seeded PRNG (mulberry32) so every run replays the same traces
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Key i is requested with probability proportional to 1 / (i + 1)^skew
+function zipf(keys: number, skew: number, count: number, seed: number): string[] {
+  const cdf: number[] = [];
+  let total = 0;
+  for (let i = 0; i < keys; i++) {
+    total += 1 / Math.pow(i + 1, skew);
+    cdf.push(total);
+  }
+
+  const next = random(seed);
+  const trace: string[] = [];
+  for (let n = 0; n < count; n++) {
+    const target = next() * total;
+    let low = 0;
+    let high = keys - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cdf[mid]! < target) low = mid + 1;
+      else high = mid;
+    }
+    trace.push(`user:${low}`);
+  }
+  return trace;
+}
+
+// Zipf traffic interrupted by one-off scans over IDs that are never read again
+function zipfWithScans(scanLength: number, scans: number): string[] {
+  const trace = zipf(keySpace, 0.99, requests, 2);
+  const interval = Math.floor(trace.length / (scans + 1));
+  const result: string[] = [];
+  let scanned = 0;
+
+  trace.forEach((key, index) => {
+    result.push(key);
+    if (index > 0 && index % interval === 0 && scanned < scans) {
+      for (let i = 0; i < scanLength; i++) {
+        result.push(`scan:${scanned}:${i}`);
+      }
+      scanned++;
+    }
+  });
+  return result;
+}
+
+// The same keys in a loop slightly larger than the cache: worst case for LRU
+function loop(length: number): string[] {
+  const trace: string[] = [];
+  for (let n = 0; n < requests; n++) {
+    trace.push(`user:${n % length}`);
+  }
+  return trace;
+}
+
+function hitRatio(policy: EvictionPolicyName, trace: string[]): number {
+  const cache = new LRUCache<string>(capacity, 24 * 60 * 60 * 1000, 0, 0, 0, () => 1, policy);
+  try {
+    for (const key of trace) {
+      if (cache.get(key) === null) {
+        cache.set(key, key);
+      }
+    }
+    const stats = cache.getStats();
+    return stats.hits / stats.totalRequests;
+  } finally {
+    cache.destroy();
+  }
+}
+
+const traces: Record<string, string[]> = {
+  'zipf (s=0.99)': zipf(keySpace, 0.99, requests, 1),
+  'zipf + scans': zipfWithScans(capacity * 2, 5),
+  'loop (1.5x capacity)': loop(Math.floor(capacity * 1.5))
+};
+
+console.log(`Eviction benchmark: capacity ${capacity}, ${requests} requests per trace, ${keySpace} keys\n`);
+
+const results: Record<string, Record<string, string>> = {};
+for (const [name, trace] of Object.entries(traces)) {
+  const row: Record<string, string> = {};
+  for (const policy of POLICIES) {
+    row[policy] = `${(hitRatio(policy, trace) * 100).toFixed(2)}%`;
+  }
+  results[name] = row;
+}
+
+console.table(results);
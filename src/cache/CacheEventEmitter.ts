@@ -0,0 +1,47 @@
+import { EventEmitter } from 'events';
+import { CacheEvent, CacheEventSource, CacheEventType } from '../types';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('cache');
+
+// Typed wrapper around EventEmitter shared by the cache stores. A throwing
+// listener is logged instead of failing the cache call that emitted.
+export class CacheEventEmitter implements CacheEventSource {
+  private readonly emitter: EventEmitter = new EventEmitter();
+
+  constructor() {
+    // SSE clients each add a listener
+    this.emitter.setMaxListeners(0);
+  }
+
+  on<K extends CacheEventType>(type: K, listener: (event: Extract<CacheEvent, { type: K }>) => void): () => void {
+    const wrapped = this.guard(listener as (event: CacheEvent) => void);
+    this.emitter.on(type, wrapped);
+    return () => {
+      this.emitter.off(type, wrapped);
+    };
+  }
+
+  subscribe(listener: (event: CacheEvent) => void): () => void {
+    const wrapped = this.guard(listener);
+    this.emitter.on('event', wrapped);
+    return () => {
+      this.emitter.off('event', wrapped);
+    };
+  }
+
+  emit(event: CacheEvent): void {
+    this.emitter.emit(event.type, event);
+    this.emitter.emit('event', event);
+  }
+
+  private guard(listener: (event: CacheEvent) => void): (event: CacheEvent) => void {
+    return (event: CacheEvent) => {
+      try {
+        listener(event);
+      } catch (error) {
+        log.error('Cache event listener failed', { event: event.type, error });
+      }
+    };
+  }
+}
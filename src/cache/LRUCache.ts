@@ -1,111 +1,238 @@
-import { CacheEntry, CacheStats } from '../types';
+import {
+  CacheEntry,
+  CacheEntryStatus,
+  CacheLookup,
+  CacheSetOptions,
+  CacheStats,
+  CacheEvent,
+  CacheEventType,
+  CacheEvictionReason,
+  CacheStore,
+  EvictionPolicy,
+  EvictionPolicyName,
+  Clock,
+  Timer
+} from '../types';
+import { systemClock } from '../clock';
+import { resolveTtl } from './ttl';
+import { CacheSizer, estimateJsonSize } from './size';
+import { createEvictionPolicy } from './eviction';
+import { globToRegExp } from './glob';
+import { CacheEventEmitter } from './CacheEventEmitter';
+import { createLogger } from '../logging/logger';
 
-export class LRUCache<T> {
+const log = createLogger('cache');
+
+// Why remove() is dropping an entry; replacements are not reported as evictions
+type RemovalCause = CacheEvictionReason | 'expired' | 'replaced';
+
+export class LRUCache<T> implements CacheStore<T> {
   private readonly cache: Map<string, CacheEntry<T>>;
   private readonly maxSize: number;
-  private readonly ttl: number;
+  private ttl: number;
+  private readonly staleWhileRevalidate: number;
+  private readonly staleIfError: number;
+  private readonly maxBytes: number;
+  private readonly sizer: CacheSizer<T>;
+  private readonly policy: EvictionPolicy;
+  // tag -> keys carrying it; maintained by set() and remove()
+  private readonly tagIndex: Map<string, Set<string>> = new Map();
+  private readonly events: CacheEventEmitter = new CacheEventEmitter();
   private readonly stats: CacheStats;
-  private readonly cleanupInterval: NodeJS.Timeout;
-  private responseTimes: number[] = [];
+  private readonly clock: Clock;
+  private readonly cleanupInterval: Timer;
 
-  constructor(maxSize: number = 1000, ttlMs: number = 60000) {
+  constructor(
+    maxSize: number = 1000,
+    ttlMs: number = 60000,
+    staleWhileRevalidateMs: number = 0,
+    staleIfErrorMs: number = 0,
+    maxBytes: number = 0, // 0 = no byte budget, only the entry count applies
+    sizer: CacheSizer<T> = estimateJsonSize,
+    evictionPolicy: EvictionPolicyName = 'lru',
+    clock: Clock = systemClock,
+    cleanupIntervalMs: number = 30000 // How often expired entries are swept
+  ) {
     this.cache = new Map();
+    this.clock = clock;
     this.maxSize = maxSize;
     this.ttl = ttlMs;
+    this.staleWhileRevalidate = staleWhileRevalidateMs;
+    this.staleIfError = staleIfErrorMs;
+    this.maxBytes = maxBytes;
+    this.sizer = sizer;
+    this.policy = createEvictionPolicy(evictionPolicy, maxSize);
     this.stats = {
       hits: 0,
       misses: 0,
+      staleHits: 0,
       currentSize: 0,
       maxSize,
-      averageResponseTime: 0,
+      currentBytes: 0,
+      maxBytes,
       totalRequests: 0
     };
 
-    // Background cleanup task every 30 seconds
-    this.cleanupInterval = setInterval(() => {
+    // Background cleanup task
+    this.cleanupInterval = clock.setInterval(() => {
       this.cleanupExpired();
-    }, 30000);
+    }, cleanupIntervalMs);
   }
 
+  // Throws for a TTL set() would reject
+  setTtl(ttlMs: number): void {
+    resolveTtl(ttlMs);
+    this.ttl = ttlMs;
+  }
+
+  // Fresh values only; stale entries are kept for getEntry() but read as a miss here
   get(key: string): T | null {
-    const startTime = Date.now();
+    const lookup = this.getEntry(key);
+    return lookup && lookup.status === 'fresh' ? lookup.value : null;
+  }
+
+  getEntry(key: string): CacheLookup<T> | null {
     this.stats.totalRequests++;
 
     const entry = this.cache.get(key);
     
     if (!entry) {
       this.stats.misses++;
-      this.updateResponseTime(startTime);
+      this.events.emit({ type: 'miss', key, timestamp: this.clock.now() });
       return null;
     }
 
-    const now = Date.now();
+    const now = this.clock.now();
+    const status = this.statusOf(entry, now);
     
-    // Check if entry has expired
-    if (now - entry.timestamp > this.ttl) {
-      this.cache.delete(key);
-      this.stats.currentSize--;
+    // Past every window: drop it
+    if (status === null) {
+      this.remove(key, entry, 'expired');
       this.stats.misses++;
-      this.updateResponseTime(startTime);
+      this.events.emit({ type: 'miss', key, timestamp: now });
       return null;
     }
 
-    // Update access information for LRU
+    // Update access information for the eviction policy
     entry.lastAccessed = now;
     entry.accessCount++;
+    this.policy.onAccess(key);
+
+    // Sliding entries stay fresh while they keep being read; stale ones
+    // still have to be revalidated
+    if (entry.sliding && status === 'fresh') {
+      entry.expiresAt = now + entry.ttl;
+    }
     
-    // Move to end (most recently used)
-    this.cache.delete(key);
-    this.cache.set(key, entry);
-    
-    this.stats.hits++;
-    this.updateResponseTime(startTime);
-    return entry.value;
+    if (status === 'fresh') {
+      this.stats.hits++;
+    } else if (status === 'stale') {
+      this.stats.staleHits++;
+    } else {
+      this.stats.misses++;
+    }
+    this.events.emit(status === 'expired'
+      ? { type: 'miss', key, timestamp: now }
+      : { type: 'hit', key, status, timestamp: now });
+    return { value: entry.value, status, age: now - entry.timestamp, freshFor: Math.max(0, entry.expiresAt - now) };
   }
 
-  set(key: string, value: T): void {
-    const now = Date.now();
+  set(key: string, value: T, options: CacheSetOptions = {}): void {
+    const now = this.clock.now();
+    const ttl = resolveTtl(this.ttl, options);
+    const size = this.sizer(value, key);
+
+    const existing = this.cache.get(key);
+
+    // A value that can never fit must not flush the whole cache trying
+    // (the old value is dropped, it is no longer current)
+    if (this.maxBytes > 0 && size > this.maxBytes) {
+      if (existing) {
+        this.remove(key, existing, 'bytes');
+      }
+      throw new Error(`Cache value for ${key} is ${size} bytes, over the ${this.maxBytes} byte budget`);
+    }
+
+    // If key already exists, the new value replaces it (and counts as a use)
+    if (existing) {
+      this.remove(key, existing, 'replaced');
+      this.policy.onAccess(key);
+    } else {
+      this.policy.onInsert(key);
+    }
+
     const entry: CacheEntry<T> = {
       value,
       timestamp: now,
       accessCount: 1,
-      lastAccessed: now
+      lastAccessed: now,
+      ttl,
+      expiresAt: now + ttl,
+      sliding: options.sliding ?? false,
+      size,
+      tags: Array.from(new Set(options.tags ?? []))
     };
 
-    // If key already exists, just update it
-    if (this.cache.has(key)) {
-      this.cache.delete(key);
-    } else {
-      // If cache is full, remove least recently used item
-      if (this.cache.size >= this.maxSize) {
-        const firstKey = this.cache.keys().next().value;
-        if (firstKey) {
-          this.cache.delete(firstKey);
-          this.stats.currentSize--;
-        }
+    // Evict the policy's victims until both the count and byte budget fit
+    while (
+      this.cache.size > 0 &&
+      (this.cache.size >= this.maxSize || (this.maxBytes > 0 && this.stats.currentBytes + size > this.maxBytes))
+    ) {
+      const reason: CacheEvictionReason = this.cache.size >= this.maxSize ? 'capacity' : 'bytes';
+      const victim = this.policy.evict(key);
+      const victimEntry = victim === undefined ? undefined : this.cache.get(victim);
+      if (victim === undefined || !victimEntry) {
+        break;
       }
-      this.stats.currentSize++;
+      this.remove(victim, victimEntry, reason);
     }
 
     this.cache.set(key, entry);
+    this.stats.currentSize++;
+    this.stats.currentBytes += size;
+    entry.tags.forEach(tag => {
+      let keys = this.tagIndex.get(tag);
+      if (!keys) {
+        keys = new Set();
+        this.tagIndex.set(tag, keys);
+      }
+      keys.add(key);
+    });
+    this.events.emit({ type: 'set', key, ttlMs: ttl, tags: entry.tags, timestamp: now });
   }
 
   delete(key: string): boolean {
-    const deleted = this.cache.delete(key);
-    if (deleted) {
-      this.stats.currentSize--;
+    const entry = this.cache.get(key);
+    if (!entry) {
+      return false;
     }
-    return deleted;
+    this.remove(key, entry, 'delete');
+    return true;
+  }
+
+  deleteByPattern(pattern: string): number {
+    const keys = this.keys(pattern);
+    keys.forEach(key => this.delete(key));
+    return keys.length;
+  }
+
+  deleteByTag(tag: string): number {
+    const keys = Array.from(this.tagIndex.get(tag) ?? []);
+    keys.forEach(key => this.delete(key));
+    return keys.length;
   }
 
   clear(): void {
     this.cache.clear();
+    this.policy.clear();
+    this.tagIndex.clear();
     this.stats.currentSize = 0;
+    this.stats.currentBytes = 0;
     this.stats.hits = 0;
     this.stats.misses = 0;
+    this.stats.staleHits = 0;
     this.stats.totalRequests = 0;
-    this.responseTimes = [];
-    this.stats.averageResponseTime = 0;
+    this.events.emit({ type: 'clear', timestamp: this.clock.now() });
   }
 
   has(key: string): boolean {
@@ -113,56 +240,85 @@ export class LRUCache<T> {
     if (!entry) return false;
     
     // Check if expired
-    const now = Date.now();
-    if (now - entry.timestamp > this.ttl) {
-      this.cache.delete(key);
-      this.stats.currentSize--;
+    const status = this.statusOf(entry, this.clock.now());
+    if (status === null) {
+      this.remove(key, entry, 'expired');
       return false;
     }
     
-    return true;
+    return status === 'fresh';
   }
 
   getStats(): CacheStats {
     return { ...this.stats };
   }
 
+  on<K extends CacheEventType>(type: K, listener: (event: Extract<CacheEvent, { type: K }>) => void): () => void {
+    return this.events.on(type, listener);
+  }
+
+  subscribe(listener: (event: CacheEvent) => void): () => void {
+    return this.events.subscribe(listener);
+  }
+
   private cleanupExpired(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
+    const now = this.clock.now();
+    const keysToDelete: Array<[string, CacheEntry<T>]> = [];
 
     for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > this.ttl) {
-        keysToDelete.push(key);
+      if (this.statusOf(entry, now) === null) {
+        keysToDelete.push([key, entry]);
       }
     }
 
-    keysToDelete.forEach(key => {
-      this.cache.delete(key);
-      this.stats.currentSize--;
-    });
+    keysToDelete.forEach(([key, entry]) => this.remove(key, entry, 'expired'));
 
     if (keysToDelete.length > 0) {
-      console.log(`Cleaned up ${keysToDelete.length} expired cache entries`);
+      log.debug('Cleaned up expired cache entries', { entries: keysToDelete.length });
     }
   }
 
-  private updateResponseTime(startTime: number): void {
-    const responseTime = Date.now() - startTime;
-    this.responseTimes.push(responseTime);
-    
-    // Keep only last 1000 response times for average calculation
-    if (this.responseTimes.length > 1000) {
-      this.responseTimes = this.responseTimes.slice(-1000);
+  // Every removal (delete, eviction, expiry, replacement) goes through here so
+  // the count, byte totals, tag index, eviction policy and events stay in step
+  private remove(key: string, entry: CacheEntry<T>, cause: RemovalCause): void {
+    this.cache.delete(key);
+    this.stats.currentSize--;
+    this.stats.currentBytes -= entry.size;
+    entry.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys?.size === 0) {
+        this.tagIndex.delete(tag);
+      }
+    });
+
+    // A replaced key keeps its eviction history
+    if (cause === 'replaced') {
+      return;
     }
-    
-    this.stats.averageResponseTime = 
-      this.responseTimes.reduce((sum, time) => sum + time, 0) / this.responseTimes.length;
+    this.policy.onRemove(key);
+    this.events.emit(cause === 'expired'
+      ? { type: 'expire', key, timestamp: this.clock.now() }
+      : { type: 'evict', key, reason: cause, timestamp: this.clock.now() });
+  }
+
+  // Entries are retained past their expiry for as long as either stale window allows
+  private statusOf(entry: CacheEntry<T>, now: number): CacheEntryStatus | null {
+    const overdue = now - entry.expiresAt;
+    if (overdue <= 0) return 'fresh';
+    if (overdue <= this.staleWhileRevalidate) return 'stale';
+    if (overdue <= this.staleIfError) return 'expired';
+    return null;
   }
 
-  // Get all keys (for debugging)
-  keys(): string[] {
-    return Array.from(this.cache.keys());
+  // Get all keys, optionally only those matching a glob
+  keys(pattern?: string): string[] {
+    const keys = Array.from(this.cache.keys());
+    if (pattern === undefined) {
+      return keys;
+    }
+    const matcher = globToRegExp(pattern);
+    return keys.filter(key => matcher.test(key));
   }
 
   // Get cache size
@@ -172,8 +328,6 @@ export class LRUCache<T> {
 
   // Cleanup interval on destroy
   destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
-    }
+    this.cleanupInterval.cancel();
   }
 }
@@ -0,0 +1,247 @@
+import {
+  CacheEntryStatus,
+  CacheEvent,
+  CacheEventType,
+  CacheLookup,
+  CacheSetOptions,
+  CacheStats,
+  CacheStore,
+  Clock
+} from '../types';
+import { systemClock } from '../clock';
+import { CacheEventEmitter } from './CacheEventEmitter';
+import { escapeGlob } from './glob';
+import { resolveTtl } from './ttl';
+import { RespClient } from './resp/RespClient';
+
+interface StoredEntry<T> {
+  value: T;
+  storedAt: number;
+  ttl: number;
+  sliding: boolean;
+}
+
+// Cache store backed by any server speaking the Redis protocol, so every
+// replica of the service shares one cache. Values are stored as JSON, which
+// means Date fields come back as ISO strings (as they would over HTTP anyway).
+// Each key is kept for its TTL plus the longer stale window, so an entry's
+// expiry is read back from its PTTL rather than stored in the value.
+// Tags are marker keys (`tag:<prefix><tag>:<key>`) with the entry's expiry.
+// Markers left behind by a delete or overwrite can only cause an extra
+// invalidation later, never a stale read.
+// Events cover this instance's own calls only: expiry and eviction happen
+// inside the server and are not reported.
+export class RedisCacheStore<T> implements CacheStore<T> {
+  private readonly client: RespClient;
+  private ttl: number;
+  private readonly prefix: string;
+  private readonly tagPrefix: string;
+  private readonly staleWhileRevalidate: number;
+  private readonly staleIfError: number;
+  private readonly stats: CacheStats;
+  private readonly clock: Clock;
+  private readonly events: CacheEventEmitter = new CacheEventEmitter();
+
+  constructor(
+    client: RespClient,
+    ttlMs: number = 60000,
+    prefix: string = 'cache:',
+    staleWhileRevalidateMs: number = 0,
+    staleIfErrorMs: number = 0,
+    clock: Clock = systemClock // Use the server's clock, since entry ages come from PTTL
+  ) {
+    this.client = client;
+    this.clock = clock;
+    this.ttl = ttlMs;
+    this.prefix = prefix;
+    this.tagPrefix = `tag:${prefix}`;
+    this.staleWhileRevalidate = staleWhileRevalidateMs;
+    this.staleIfError = staleIfErrorMs;
+    this.stats = {
+      hits: 0,
+      misses: 0,
+      staleHits: 0,
+      currentSize: 0,
+      maxSize: 0, // Bounded by the server's maxmemory policy
+      currentBytes: 0,
+      maxBytes: 0,
+      totalRequests: 0
+    };
+  }
+
+  // Throws for a TTL set() would reject
+  setTtl(ttlMs: number): void {
+    resolveTtl(ttlMs);
+    this.ttl = ttlMs;
+  }
+
+  // Fresh values only; stale entries are kept for getEntry() but read as a miss here
+  async get(key: string): Promise<T | null> {
+    const lookup = await this.getEntry(key);
+    return lookup && lookup.status === 'fresh' ? lookup.value : null;
+  }
+
+  async getEntry(key: string): Promise<CacheLookup<T> | null> {
+    this.stats.totalRequests++;
+
+    const found = await this.read(key);
+
+    if (!found) {
+      this.stats.misses++;
+      this.events.emit({ type: 'miss', key, timestamp: this.clock.now() });
+      return null;
+    }
+
+    const { entry, status } = found;
+    let freshFor = found.freshFor;
+    if (status === 'fresh') {
+      this.stats.hits++;
+      // Sliding entries stay fresh while they keep being read
+      if (entry.sliding) {
+        await this.client.command('PEXPIRE', this.prefix + key, entry.ttl + this.grace());
+        freshFor = entry.ttl;
+      }
+    } else if (status === 'stale') {
+      this.stats.staleHits++;
+    } else {
+      this.stats.misses++;
+    }
+    this.events.emit(status === 'expired'
+      ? { type: 'miss', key, timestamp: this.clock.now() }
+      : { type: 'hit', key, status, timestamp: this.clock.now() });
+    return { value: entry.value, status, age: this.clock.now() - entry.storedAt, freshFor };
+  }
+
+  async set(key: string, value: T, options: CacheSetOptions = {}): Promise<void> {
+    const ttl = resolveTtl(this.ttl, options);
+    const entry: StoredEntry<T> = { value, storedAt: this.clock.now(), ttl, sliding: options.sliding ?? false };
+    const retention = ttl + this.grace();
+    const tags = Array.from(new Set(options.tags ?? []));
+
+    if (tags.length === 0) {
+      await this.client.command('SET', this.prefix + key, JSON.stringify(entry), 'PX', retention);
+    } else {
+      await this.client.transaction([
+        ['SET', this.prefix + key, JSON.stringify(entry), 'PX', retention],
+        ...tags.map(tag => ['SET', this.tagMarkerPrefix(tag) + key, '1', 'PX', retention])
+      ]);
+    }
+    this.events.emit({ type: 'set', key, ttlMs: ttl, tags, timestamp: entry.storedAt });
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return (await this.deleteEntries([key])) === 1;
+  }
+
+  async deleteByPattern(pattern: string): Promise<number> {
+    const keys = await this.scanKeys(pattern);
+    return this.deleteEntries(keys.map(key => key.slice(this.prefix.length)));
+  }
+
+  async deleteByTag(tag: string): Promise<number> {
+    const markerPrefix = this.tagMarkerPrefix(tag);
+    const markers = await this.client.scan(`${escapeGlob(markerPrefix)}*`);
+    const deleted = await this.deleteEntries(markers.map(marker => marker.slice(markerPrefix.length)));
+    await this.deleteKeys(markers);
+    return deleted;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const found = await this.read(key);
+    return found?.status === 'fresh';
+  }
+
+  async clear(): Promise<void> {
+    await this.deleteKeys(await this.scanKeys());
+    await this.deleteKeys(await this.client.scan(`${escapeGlob(this.tagPrefix)}*`));
+
+    this.stats.hits = 0;
+    this.stats.misses = 0;
+    this.stats.staleHits = 0;
+    this.stats.totalRequests = 0;
+    this.events.emit({ type: 'clear', timestamp: this.clock.now() });
+  }
+
+  async keys(pattern: string = '*'): Promise<string[]> {
+    const keys = await this.scanKeys(pattern);
+    return keys.map(key => key.slice(this.prefix.length));
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const keys = await this.scanKeys();
+    return { ...this.stats, currentSize: keys.length };
+  }
+
+  on<K extends CacheEventType>(type: K, listener: (event: Extract<CacheEvent, { type: K }>) => void): () => void {
+    return this.events.on(type, listener);
+  }
+
+  subscribe(listener: (event: CacheEvent) => void): () => void {
+    return this.events.subscribe(listener);
+  }
+
+  async destroy(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private scanKeys(pattern: string = '*'): Promise<string[]> {
+    return this.client.scan(escapeGlob(this.prefix) + pattern);
+  }
+
+  // One DEL per key, so only entries that actually existed are reported
+  private async deleteEntries(keys: string[]): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+
+    const replies = await this.client.transaction(keys.map(key => ['DEL', this.prefix + key]));
+    const now = this.clock.now();
+    let deleted = 0;
+    replies.forEach((reply, index) => {
+      if (reply === 1) {
+        deleted++;
+        this.events.emit({ type: 'evict', key: keys[index]!, reason: 'delete', timestamp: now });
+      }
+    });
+    return deleted;
+  }
+
+  private async deleteKeys(keys: string[]): Promise<number> {
+    if (keys.length === 0) {
+      return 0;
+    }
+    const deleted = await this.client.command('DEL', ...keys);
+    return typeof deleted === 'number' ? deleted : 0;
+  }
+
+  private tagMarkerPrefix(tag: string): string {
+    return `${this.tagPrefix}${encodeURIComponent(tag)}:`;
+  }
+
+  private async read(key: string): Promise<{ entry: StoredEntry<T>; status: CacheEntryStatus; freshFor: number } | null> {
+    const [raw, pttl] = await this.client.transaction([
+      ['GET', this.prefix + key],
+      ['PTTL', this.prefix + key]
+    ]);
+    if (typeof raw !== 'string' || typeof pttl !== 'number' || pttl < 0) {
+      return null;
+    }
+    return {
+      entry: JSON.parse(raw) as StoredEntry<T>,
+      status: this.statusOf(this.grace() - pttl),
+      freshFor: Math.max(0, pttl - this.grace())
+    };
+  }
+
+  // How long a key outlives its TTL: as long as either stale window may still serve it
+  private grace(): number {
+    return Math.max(this.staleWhileRevalidate, this.staleIfError);
+  }
+
+  // The key's PX already dropped anything past both windows
+  private statusOf(overdue: number): CacheEntryStatus {
+    if (overdue <= 0) return 'fresh';
+    if (overdue <= this.staleWhileRevalidate) return 'stale';
+    return 'expired';
+  }
+}
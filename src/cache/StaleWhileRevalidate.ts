@@ -0,0 +1,165 @@
+import { CacheLookup, CacheSetOptions, CacheStore } from '../types';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('cache');
+
+export interface RevalidatedValue<T> {
+  value: T;
+  cached: boolean;
+  stale: boolean;
+}
+
+// Passed to loaders; background loads refresh a stale entry nobody is waiting on
+export interface LoadContext {
+  background: boolean;
+}
+
+export type Loader<T> = (context: LoadContext) => Promise<T>;
+
+// Read-through helper on top of a CacheStore's stale windows:
+// - fresh entries are returned as-is
+// - stale entries are returned immediately while one background refresh runs
+// - on a miss the loader runs inline; if it fails, an entry still inside the
+//   stale-if-error window is served instead of the error
+// Writes to the underlying data should go through set()/delete(), so a load
+// that started before the write can't put the old value back afterwards.
+export class StaleWhileRevalidate<T> {
+  private readonly store: CacheStore<T>;
+  private readonly setOptions: CacheSetOptions;
+  private readonly refreshing: Map<string, Promise<void>> = new Map();
+  // Per key: loads in flight, and a generation bumped by every write meanwhile
+  private readonly loads: Map<string, { count: number; generation: number }> = new Map();
+
+  // setOptions apply to every value the loader writes back
+  constructor(store: CacheStore<T>, setOptions: CacheSetOptions = {}) {
+    this.store = store;
+    this.setOptions = setOptions;
+  }
+
+  async get(key: string, loader: Loader<T>): Promise<RevalidatedValue<T>> {
+    return this.resolve(key, await this.store.getEntry(key), loader);
+  }
+
+  // Batched get: every key is looked up first, then all misses are loaded with
+  // one loader call. The loader answers per key, in order, with a value or an
+  // Error; results come back the same way, so one failed key fails alone.
+  async getMany(
+    keys: string[],
+    loader: (keys: string[], context: LoadContext) => Promise<Array<T | Error>>
+  ): Promise<Array<RevalidatedValue<T> | Error>> {
+    const lookups = await Promise.all(keys.map(key => this.store.getEntry(key)));
+    const missing = keys.filter((_, index) => {
+      const status = lookups[index]?.status;
+      return status !== 'fresh' && status !== 'stale';
+    });
+    const loaded = missing.length > 0 ? loader(missing, { background: false }) : Promise.resolve([]);
+
+    // Stale keys are refreshed one by one in the background
+    const loadOne = (key: string): Loader<T> => async context => {
+      const index = missing.indexOf(key);
+      const result = index >= 0 ? (await loaded)[index] : (await loader([key], context))[0];
+      if (result === undefined) throw new Error(`No result loaded for ${key}`);
+      if (result instanceof Error) throw result;
+      return result;
+    };
+
+    return Promise.all(keys.map((key, index) =>
+      this.resolve(key, lookups[index] ?? null, loadOne(key))
+        .catch(error => error instanceof Error ? error : new Error(String(error)))
+    ));
+  }
+
+  private async resolve(key: string, lookup: CacheLookup<T> | null, loader: Loader<T>): Promise<RevalidatedValue<T>> {
+    if (lookup?.status === 'fresh') {
+      return { value: lookup.value, cached: true, stale: false };
+    }
+
+    if (lookup?.status === 'stale') {
+      this.refreshInBackground(key, loader);
+      return { value: lookup.value, cached: true, stale: true };
+    }
+
+    let loaded: { value: T; current: boolean };
+    try {
+      loaded = await this.load(key, () => loader({ background: false }));
+    } catch (error) {
+      if (lookup) {
+        log.warn('Serving stale cache entry after reload failed', { key, error });
+        return { value: lookup.value, cached: true, stale: true };
+      }
+      throw error;
+    }
+
+    // A value the cache refuses (e.g. over its byte budget) is still served,
+    // and so is one a write has superseded since the load started
+    if (loaded.current) {
+      try {
+        await this.store.set(key, loaded.value, this.setOptions);
+      } catch (error) {
+        log.warn('Could not cache entry', { key, error });
+      }
+    }
+    return { value: loaded.value, cached: false, stale: false };
+  }
+
+  // Write-through after the underlying data changed. If the new value can't
+  // be cached, the old entry is removed rather than left behind.
+  async set(key: string, value: T): Promise<void> {
+    this.supersedeLoads(key);
+    try {
+      await this.store.set(key, value, this.setOptions);
+    } catch (error) {
+      log.warn('Could not cache entry, invalidating it instead', { key, error });
+      await this.store.delete(key);
+    }
+  }
+
+  // Invalidate after the underlying data was removed
+  async delete(key: string): Promise<boolean> {
+    this.supersedeLoads(key);
+    return this.store.delete(key);
+  }
+
+  private supersedeLoads(key: string): void {
+    const loads = this.loads.get(key);
+    if (loads) {
+      loads.generation++;
+    }
+  }
+
+  // current is false when a write happened while the loader ran, so its
+  // value may predate the write
+  private async load(key: string, loader: () => Promise<T>): Promise<{ value: T; current: boolean }> {
+    const state = this.loads.get(key) ?? { count: 0, generation: 0 };
+    this.loads.set(key, state);
+    const generation = state.generation;
+    state.count++;
+
+    try {
+      const value = await loader();
+      return { value, current: state.generation === generation };
+    } finally {
+      if (--state.count === 0) {
+        this.loads.delete(key);
+      }
+    }
+  }
+
+  // Only one refresh per key at a time; failures keep the stale entry in place
+  private refreshInBackground(key: string, loader: Loader<T>): void {
+    if (this.refreshing.has(key)) {
+      return;
+    }
+
+    const refresh = this.load(key, () => loader({ background: true }))
+      .then(({ value, current }) => current ? this.store.set(key, value, this.setOptions) : undefined)
+      .catch(error => {
+        log.warn('Background refresh failed', { key, error });
+      })
+      .finally(() => {
+        this.refreshing.delete(key);
+      });
+
+    this.refreshing.set(key, refresh);
+  }
+}
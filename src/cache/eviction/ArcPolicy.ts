@@ -0,0 +1,99 @@
+import { EvictionPolicy } from '../../types';
+import { oldest, touch } from './keys';
+
+// Adaptive Replacement Cache (Megiddo & Modha). Resident keys are split into
+// T1 (seen once recently) and T2 (seen at least twice); B1 and B2 remember
+// keys recently evicted from each. A miss that hits B1 grows the target size
+// `p` of T1, a hit in B2 shrinks it, so the split adapts between recency and
+// frequency as the workload shifts.
+export class ArcPolicy implements EvictionPolicy {
+  readonly name = 'arc' as const;
+  private readonly capacity: number;
+  private readonly t1: Set<string> = new Set();
+  private readonly t2: Set<string> = new Set();
+  private readonly b1: Set<string> = new Set();
+  private readonly b2: Set<string> = new Set();
+  private target: number = 0;
+  // Key being inserted after a B2 ghost hit; breaks the tie in evict()
+  private insertedFromB2: string | null = null;
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+  }
+
+  onInsert(key: string): void {
+    this.onRemove(key);
+    this.insertedFromB2 = null;
+
+    if (this.b1.delete(key)) {
+      this.target = Math.min(this.capacity, this.target + Math.max(this.b2.size / (this.b1.size + 1), 1));
+      this.t2.add(key);
+    } else if (this.b2.delete(key)) {
+      this.target = Math.max(0, this.target - Math.max(this.b1.size / (this.b2.size + 1), 1));
+      this.t2.add(key);
+      this.insertedFromB2 = key;
+    } else {
+      this.t1.add(key);
+    }
+  }
+
+  onAccess(key: string): void {
+    if (this.t1.delete(key)) {
+      this.t2.add(key);
+    } else if (this.t2.has(key)) {
+      touch(this.t2, key);
+    }
+  }
+
+  onRemove(key: string): void {
+    this.t1.delete(key);
+    this.t2.delete(key);
+  }
+
+  evict(incoming: string): string | undefined {
+    const t1Size = this.t1.size - (this.t1.has(incoming) ? 1 : 0);
+    const preferT1 = t1Size > 0 &&
+      (t1Size > this.target || (t1Size === this.target && this.insertedFromB2 === incoming));
+
+    let victim = preferT1 ? oldest(this.t1, incoming) : oldest(this.t2, incoming);
+    let fromT1 = preferT1;
+    if (victim === undefined) {
+      victim = preferT1 ? oldest(this.t2, incoming) : oldest(this.t1, incoming);
+      fromT1 = !preferT1;
+    }
+    if (victim === undefined) {
+      return undefined;
+    }
+
+    if (fromT1) {
+      this.t1.delete(victim);
+      this.b1.add(victim);
+    } else {
+      this.t2.delete(victim);
+      this.b2.add(victim);
+    }
+    this.trimGhosts();
+    return victim;
+  }
+
+  clear(): void {
+    this.t1.clear();
+    this.t2.clear();
+    this.b1.clear();
+    this.b2.clear();
+    this.target = 0;
+    this.insertedFromB2 = null;
+  }
+
+  // |T1| + |B1| <= c and all four lists together <= 2c
+  private trimGhosts(): void {
+    while (this.t1.size + this.b1.size > this.capacity && this.b1.size > 0) {
+      this.b1.delete(oldest(this.b1)!);
+    }
+    while (this.t1.size + this.t2.size + this.b1.size + this.b2.size > 2 * this.capacity) {
+      const ghost = oldest(this.b2) ?? oldest(this.b1);
+      if (ghost === undefined) break;
+      this.b2.delete(ghost) || this.b1.delete(ghost);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { EvictionPolicy } from '../../types';
+import { oldest } from './keys';
+
+// Evicts the oldest insert regardless of use. Hits cost nothing, which makes
+// it a baseline more than a recommendation.
+export class FifoPolicy implements EvictionPolicy {
+  readonly name = 'fifo' as const;
+  private readonly order: Set<string> = new Set();
+
+  onInsert(key: string): void {
+    this.order.add(key);
+  }
+
+  onAccess(key: string): void {
+    // Insertion order only
+  }
+
+  onRemove(key: string): void {
+    this.order.delete(key);
+  }
+
+  evict(incoming: string): string | undefined {
+    const victim = oldest(this.order, incoming);
+    if (victim !== undefined) {
+      this.order.delete(victim);
+    }
+    return victim;
+  }
+
+  clear(): void {
+    this.order.clear();
+  }
+}
@@ -0,0 +1,75 @@
+const DEPTH = 4;
+const MAX_COUNT = 15; // 4-bit counters, as in TinyLFU
+
+// Count-min sketch estimating how often each key was seen recently. Counters
+// saturate at 15 and are all halved every `sampleSize` increments, so old
+// popularity fades instead of pinning keys forever.
+export class FrequencySketch {
+  private readonly table: Uint8Array;
+  private readonly mask: number;
+  private readonly sampleSize: number;
+  private additions: number = 0;
+
+  constructor(capacity: number) {
+    let width = 16;
+    while (width < capacity) {
+      width *= 2;
+    }
+    this.table = new Uint8Array(width * DEPTH);
+    this.mask = width - 1;
+    this.sampleSize = Math.max(10, capacity * 10);
+  }
+
+  frequency(key: string): number {
+    let min = MAX_COUNT;
+    this.forEachSlot(key, slot => {
+      min = Math.min(min, this.table[slot]!);
+    });
+    return min;
+  }
+
+  increment(key: string): void {
+    let changed = false;
+    this.forEachSlot(key, slot => {
+      if (this.table[slot]! < MAX_COUNT) {
+        this.table[slot]!++;
+        changed = true;
+      }
+    });
+
+    if (changed && ++this.additions >= this.sampleSize) {
+      this.age();
+    }
+  }
+
+  clear(): void {
+    this.table.fill(0);
+    this.additions = 0;
+  }
+
+  private age(): void {
+    for (let i = 0; i < this.table.length; i++) {
+      this.table[i] = this.table[i]! >> 1;
+    }
+    this.additions = Math.floor(this.additions / 2);
+  }
+
+  // One slot per row, from two FNV-1a hashes combined (double hashing)
+  private forEachSlot(key: string, visit: (slot: number) => void): void {
+    const h1 = fnv1a(key, 0x811c9dc5);
+    const h2 = fnv1a(key, 0x01000193) | 1;
+    const width = this.mask + 1;
+    for (let row = 0; row < DEPTH; row++) {
+      visit(row * width + ((h1 + Math.imul(row, h2)) >>> 0 & this.mask));
+    }
+  }
+}
+
+function fnv1a(value: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,67 @@
+import { EvictionPolicy } from '../../types';
+import { oldest } from './keys';
+
+// Evicts the least frequently used key, least recently used among ties.
+// Scan resistant, but counts never decay, so formerly hot keys can linger.
+export class LfuPolicy implements EvictionPolicy {
+  readonly name = 'lfu' as const;
+  private readonly counts: Map<string, number> = new Map();
+  // Keys grouped by hit count, each group in access order
+  private readonly buckets: Map<number, Set<string>> = new Map();
+
+  onInsert(key: string): void {
+    this.onRemove(key);
+    this.place(key, 1);
+  }
+
+  onAccess(key: string): void {
+    const count = this.counts.get(key);
+    if (count !== undefined) {
+      this.unplace(key, count);
+      this.place(key, count + 1);
+    }
+  }
+
+  onRemove(key: string): void {
+    const count = this.counts.get(key);
+    if (count !== undefined) {
+      this.unplace(key, count);
+    }
+  }
+
+  evict(incoming: string): string | undefined {
+    const counts = Array.from(this.buckets.keys()).sort((a, b) => a - b);
+    for (const count of counts) {
+      const victim = oldest(this.buckets.get(count)!, incoming);
+      if (victim !== undefined) {
+        this.unplace(victim, count);
+        return victim;
+      }
+    }
+    return undefined;
+  }
+
+  clear(): void {
+    this.counts.clear();
+    this.buckets.clear();
+  }
+
+  private place(key: string, count: number): void {
+    this.counts.set(key, count);
+    let bucket = this.buckets.get(count);
+    if (!bucket) {
+      bucket = new Set();
+      this.buckets.set(count, bucket);
+    }
+    bucket.add(key);
+  }
+
+  private unplace(key: string, count: number): void {
+    this.counts.delete(key);
+    const bucket = this.buckets.get(count);
+    bucket?.delete(key);
+    if (bucket?.size === 0) {
+      this.buckets.delete(count);
+    }
+  }
+}
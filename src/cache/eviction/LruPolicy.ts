@@ -0,0 +1,35 @@
+import { EvictionPolicy } from '../../types';
+import { oldest, touch } from './keys';
+
+// Evicts the least recently used key. Cheap and good for recency-heavy
+// workloads, but one scan over many keys flushes everything else out.
+export class LruPolicy implements EvictionPolicy {
+  readonly name = 'lru' as const;
+  private readonly order: Set<string> = new Set();
+
+  onInsert(key: string): void {
+    touch(this.order, key);
+  }
+
+  onAccess(key: string): void {
+    if (this.order.has(key)) {
+      touch(this.order, key);
+    }
+  }
+
+  onRemove(key: string): void {
+    this.order.delete(key);
+  }
+
+  evict(incoming: string): string | undefined {
+    const victim = oldest(this.order, incoming);
+    if (victim !== undefined) {
+      this.order.delete(victim);
+    }
+    return victim;
+  }
+
+  clear(): void {
+    this.order.clear();
+  }
+}
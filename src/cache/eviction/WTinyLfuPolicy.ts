@@ -0,0 +1,99 @@
+import { EvictionPolicy } from '../../types';
+import { FrequencySketch } from './FrequencySketch';
+import { oldest, touch } from './keys';
+
+// Window TinyLFU (as used by Caffeine): new keys enter a small LRU window
+// (1% of capacity). Keys leaving the window only displace a key in the main
+// space if the frequency sketch says they are seen more often, so a scan
+// passes through the window without flushing popular keys. The main space
+// is a segmented LRU: keys hit again in probation move to protected (80%).
+export class WTinyLfuPolicy implements EvictionPolicy {
+  readonly name = 'w-tinylfu' as const;
+  private readonly windowMax: number;
+  private readonly mainMax: number;
+  private readonly protectedMax: number;
+  private readonly sketch: FrequencySketch;
+  private readonly window: Set<string> = new Set();
+  private readonly probation: Set<string> = new Set();
+  private readonly protected: Set<string> = new Set();
+
+  constructor(capacity: number) {
+    this.windowMax = Math.max(1, Math.round(capacity * 0.01));
+    this.mainMax = Math.max(1, capacity - this.windowMax);
+    this.protectedMax = Math.max(1, Math.floor(this.mainMax * 0.8));
+    this.sketch = new FrequencySketch(capacity);
+  }
+
+  onInsert(key: string): void {
+    this.onRemove(key);
+    this.sketch.increment(key);
+    this.window.add(key);
+
+    // While the cache is filling up, the window simply overflows into probation
+    while (this.window.size > this.windowMax && this.mainSize() < this.mainMax) {
+      const overflow = oldest(this.window, key)!;
+      this.window.delete(overflow);
+      this.probation.add(overflow);
+    }
+  }
+
+  onAccess(key: string): void {
+    this.sketch.increment(key);
+
+    if (this.window.has(key)) {
+      touch(this.window, key);
+    } else if (this.probation.delete(key)) {
+      this.protected.add(key);
+      if (this.protected.size > this.protectedMax) {
+        const demoted = oldest(this.protected)!;
+        this.protected.delete(demoted);
+        this.probation.add(demoted);
+      }
+    } else if (this.protected.has(key)) {
+      touch(this.protected, key);
+    }
+  }
+
+  onRemove(key: string): void {
+    this.window.delete(key);
+    this.probation.delete(key);
+    this.protected.delete(key);
+  }
+
+  evict(incoming: string): string | undefined {
+    // The window's oldest key competes with the main space's victim
+    if (this.window.size > this.windowMax) {
+      const candidate = oldest(this.window, incoming)!;
+      const victim = oldest(this.probation, incoming) ?? oldest(this.protected, incoming);
+      this.window.delete(candidate);
+
+      if (victim === undefined) {
+        return candidate;
+      }
+      if (this.sketch.frequency(candidate) > this.sketch.frequency(victim)) {
+        this.onRemove(victim);
+        this.probation.add(candidate);
+        return victim;
+      }
+      return candidate;
+    }
+
+    // Window within its share (e.g. evicting for the byte budget)
+    const victim = oldest(this.probation, incoming) ?? oldest(this.protected, incoming) ?? oldest(this.window, incoming);
+    if (victim !== undefined) {
+      this.onRemove(victim);
+    }
+    return victim;
+  }
+
+  clear(): void {
+    this.window.clear();
+    this.probation.clear();
+    this.protected.clear();
+    this.sketch.clear();
+  }
+
+  private mainSize(): number {
+    return this.probation.size + this.protected.size;
+  }
+}
@@ -0,0 +1,25 @@
+import { EvictionPolicy, EvictionPolicyName } from '../../types';
+import { LruPolicy } from './LruPolicy';
+import { LfuPolicy } from './LfuPolicy';
+import { WTinyLfuPolicy } from './WTinyLfuPolicy';
+import { ArcPolicy } from './ArcPolicy';
+import { FifoPolicy } from './FifoPolicy';
+import { FrequencySketch } from './FrequencySketch';
+
+const policies: Record<EvictionPolicyName, (capacity: number) => EvictionPolicy> = {
+  'lru': () => new LruPolicy(),
+  'lfu': () => new LfuPolicy(),
+  'w-tinylfu': capacity => new WTinyLfuPolicy(capacity),
+  'arc': capacity => new ArcPolicy(capacity),
+  'fifo': () => new FifoPolicy()
+};
+
+export function createEvictionPolicy(name: EvictionPolicyName, capacity: number): EvictionPolicy {
+  const factory = policies[name];
+  if (!factory) {
+    throw new Error(`Unknown eviction policy: ${name}`);
+  }
+  return factory(capacity);
+}
+
+export { LruPolicy, LfuPolicy, WTinyLfuPolicy, ArcPolicy, FifoPolicy, FrequencySketch };
@@ -0,0 +1,13 @@
+// Oldest key in insertion order, skipping `except`
+export function oldest(keys: Set<string>, except?: string): string | undefined {
+  for (const key of keys) {
+    if (key !== except) return key;
+  }
+  return undefined;
+}
+
+// Re-insert so the key becomes the newest
+export function touch(keys: Set<string>, key: string): void {
+  keys.delete(key);
+  keys.add(key);
+}
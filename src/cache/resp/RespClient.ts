@@ -0,0 +1,213 @@
+import net from 'net';
+import { RespError, RespParser, RespValue, encodeCommand } from './protocol';
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout | null;
+}
+
+// Small pipelining RESP2 client: enough for the cache and rate limiter stores,
+// without pulling a Redis driver into the dependency tree
+export class RespClient {
+  private readonly host: string;
+  private readonly port: number;
+  private readonly password: string | null;
+  private readonly db: number;
+  private readonly commandTimeoutMs: number;
+  private readonly pending: PendingReply[] = [];
+  private parser = new RespParser();
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+
+  // A command not answered within commandTimeoutMs (0 for no limit) rejects,
+  // so callers fail open instead of waiting on a server that stopped replying
+  constructor(url: string = 'redis://127.0.0.1:6379', commandTimeoutMs: number = 1000) {
+    if (!Number.isFinite(commandTimeoutMs) || commandTimeoutMs < 0) {
+      throw new Error(`Command timeout must be a non-negative number, got ${commandTimeoutMs}`);
+    }
+    const parsed = new URL(url);
+    this.host = parsed.hostname || '127.0.0.1';
+    this.port = parsed.port ? parseInt(parsed.port) : 6379;
+    this.password = parsed.password ? decodeURIComponent(parsed.password) : null;
+    this.db = parsed.pathname.length > 1 ? parseInt(parsed.pathname.slice(1)) || 0 : 0;
+    this.commandTimeoutMs = commandTimeoutMs;
+  }
+
+  async command(...args: Array<string | number>): Promise<RespValue> {
+    const socket = await this.connect();
+    return this.send(socket, args);
+  }
+
+  // Run commands atomically inside MULTI/EXEC; resolves with the EXEC reply array
+  async transaction(commands: Array<Array<string | number>>): Promise<RespValue[]> {
+    const socket = await this.connect();
+    const replies = [
+      this.send(socket, ['MULTI']),
+      ...commands.map(args => this.send(socket, args)),
+      this.send(socket, ['EXEC'])
+    ];
+
+    const results = await Promise.all(replies);
+    const execReply = results[results.length - 1];
+    if (!Array.isArray(execReply)) {
+      throw new RespError('Transaction aborted');
+    }
+    return execReply;
+  }
+
+  // Collect every key matching a glob with SCAN, so large databases never block on KEYS
+  async scan(pattern: string, count: number = 100): Promise<string[]> {
+    const keys: Set<string> = new Set();
+    let cursor = '0';
+
+    do {
+      const reply = await this.command('SCAN', cursor, 'MATCH', pattern, 'COUNT', count);
+      if (!Array.isArray(reply) || !Array.isArray(reply[1])) {
+        throw new RespError('Unexpected SCAN reply');
+      }
+      cursor = String(reply[0]);
+      reply[1].forEach(key => keys.add(String(key)));
+    } while (cursor !== '0');
+
+    // SCAN may return a key more than once
+    return Array.from(keys);
+  }
+
+  async quit(): Promise<void> {
+    if (!this.socket && !this.connecting) return;
+
+    try {
+      await this.command('QUIT');
+    } catch {
+      // Connection already gone
+    }
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  private send(socket: net.Socket, args: Array<string | number>): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      const reply: PendingReply = {
+        resolve: value => {
+          this.clearTimer(reply);
+          resolve(value);
+        },
+        reject: error => {
+          this.clearTimer(reply);
+          reject(error);
+        },
+        timer: null
+      };
+      if (this.commandTimeoutMs > 0) {
+        // Replies are matched to commands by order, so a late reply would be
+        // taken for the next command's: drop the connection instead, which
+        // fails everything else in flight and reconnects on the next command
+        reply.timer = setTimeout(() => {
+          reply.timer = null;
+          this.pending.splice(this.pending.indexOf(reply), 1);
+          reply.reject(new RespError(`${String(args[0])} timed out after ${this.commandTimeoutMs}ms`));
+          this.drop(socket, new Error('RESP connection dropped after a command timed out'));
+        }, this.commandTimeoutMs);
+        reply.timer.unref();
+      }
+      this.pending.push(reply);
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  // Detach from a connection at once rather than on its 'close' event, so no
+  // command is written to it in the meantime
+  private drop(socket: net.Socket, error: Error): void {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('close');
+    socket.removeAllListeners('error');
+    socket.on('error', () => {});
+    socket.destroy();
+
+    if (this.socket === socket) {
+      this.socket = null;
+    }
+    this.parser = new RespParser();
+    this.failPending(error);
+  }
+
+  private clearTimer(reply: PendingReply): void {
+    if (reply.timer) {
+      clearTimeout(reply.timer);
+      reply.timer = null;
+    }
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+    if (this.connecting) return this.connecting;
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.createConnection({ host: this.host, port: this.port });
+      socket.setNoDelay(true);
+
+      socket.once('connect', async () => {
+        try {
+          if (this.password) {
+            await this.send(socket, ['AUTH', this.password]);
+          }
+          if (this.db !== 0) {
+            await this.send(socket, ['SELECT', this.db]);
+          }
+          this.socket = socket;
+          resolve(socket);
+        } catch (error) {
+          socket.destroy();
+          reject(error as Error);
+        } finally {
+          this.connecting = null;
+        }
+      });
+
+      socket.on('data', chunk => this.onData(chunk));
+
+      socket.on('error', error => {
+        if (this.connecting) {
+          this.connecting = null;
+          reject(error);
+        }
+        this.failPending(error);
+      });
+
+      socket.on('close', () => {
+        this.socket = null;
+        this.parser = new RespParser();
+        this.failPending(new Error('RESP connection closed'));
+      });
+    });
+
+    return this.connecting;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.parser.push(chunk);
+
+    try {
+      let reply = this.parser.next();
+      while (reply) {
+        const pending = this.pending.shift();
+        if (pending) {
+          if (reply.value instanceof RespError) {
+            pending.reject(reply.value);
+          } else {
+            pending.resolve(reply.value);
+          }
+        }
+        reply = this.parser.next();
+      }
+    } catch (error) {
+      this.socket?.destroy(error as Error);
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending.splice(0);
+    pending.forEach(reply => reply.reject(error));
+  }
+}
@@ -0,0 +1,321 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+import { globToRegExp } from '../glob';
+import { Clock } from '../../types';
+import { systemClock } from '../../clock';
+import {
+  RespError,
+  RespParser,
+  encodeArray,
+  encodeBulk,
+  encodeError,
+  encodeInteger,
+  encodeSimple
+} from './protocol';
+import { COMPARE_AND_DELETE_SCRIPT } from './scripts';
+
+interface StoredValue {
+  value: string;
+  expiresAt: number | null;
+  // Insertion order of the key; SCAN cursors point into it
+  seq: number;
+}
+
+interface ConnectionState {
+  queued: string[][] | null;
+}
+
+// In-process stand-in for a Redis server. It implements the subset of commands
+// used by RespClient consumers so the RESP-backed stores can run without Redis.
+export class RespServer {
+  private readonly data: Map<string, StoredValue> = new Map();
+  private readonly sockets: Set<net.Socket> = new Set();
+  private readonly server: net.Server;
+  private readonly clock: Clock;
+  private nextSeq: number = 1;
+  // EVAL runs these script sources only, as the equivalent JavaScript
+  private readonly scripts: Map<string, (keys: string[], args: string[]) => Buffer> = new Map([
+    [COMPARE_AND_DELETE_SCRIPT, (keys, args) => encodeInteger(this.compareAndDelete(this.requireArg(keys, 0), this.requireArg(args, 0)))]
+  ]);
+
+  // Key expiry follows the clock, so tests can expire keys without waiting
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+    this.server = net.createServer(socket => this.handleConnection(socket));
+  }
+
+  // Start listening; resolves with a redis:// URL for RespClient
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        const address = this.server.address() as AddressInfo;
+        resolve(`redis://${host}:${address.port}`);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    this.sockets.clear();
+
+    return new Promise(resolve => {
+      this.server.close(() => resolve());
+    });
+  }
+
+  private handleConnection(socket: net.Socket): void {
+    const parser = new RespParser();
+    const state: ConnectionState = { queued: null };
+    this.sockets.add(socket);
+
+    socket.on('data', chunk => {
+      parser.push(chunk);
+
+      try {
+        let request = parser.next();
+        while (request) {
+          const args = Array.isArray(request.value) ? request.value.map(String) : [];
+          socket.write(this.dispatch(args, state));
+          if (args[0]?.toUpperCase() === 'QUIT') {
+            socket.end();
+            return;
+          }
+          request = parser.next();
+        }
+      } catch (error) {
+        socket.end(encodeError(`ERR ${(error as Error).message}`));
+      }
+    });
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => this.sockets.delete(socket));
+  }
+
+  private dispatch(args: string[], state: ConnectionState): Buffer {
+    const name = (args[0] ?? '').toUpperCase();
+
+    if (state.queued) {
+      if (name === 'EXEC') {
+        const queued = state.queued;
+        state.queued = null;
+        return encodeArray(queued.map(command => this.execute(command)));
+      }
+      if (name === 'DISCARD') {
+        state.queued = null;
+        return encodeSimple('OK');
+      }
+      if (name === 'MULTI') {
+        return encodeError('ERR MULTI calls can not be nested');
+      }
+      state.queued.push(args);
+      return encodeSimple('QUEUED');
+    }
+
+    if (name === 'MULTI') {
+      state.queued = [];
+      return encodeSimple('OK');
+    }
+    if (name === 'EXEC' || name === 'DISCARD') {
+      return encodeError(`ERR ${name} without MULTI`);
+    }
+
+    return this.execute(args);
+  }
+
+  private execute(args: string[]): Buffer {
+    const [rawName, ...rest] = args;
+    const name = (rawName ?? '').toUpperCase();
+
+    try {
+      switch (name) {
+        case 'PING':
+          return rest[0] !== undefined ? encodeBulk(rest[0]) : encodeSimple('PONG');
+        case 'AUTH':
+        case 'SELECT':
+        case 'QUIT':
+          return encodeSimple('OK');
+        case 'GET':
+          return encodeBulk(this.read(this.requireArg(rest, 0))?.value ?? null);
+        case 'SET':
+          return this.set(rest);
+        case 'DEL':
+          return encodeInteger(rest.filter(key => this.read(key) && this.data.delete(key)).length);
+        case 'EXISTS':
+          return encodeInteger(rest.filter(key => this.read(key)).length);
+        case 'INCR':
+          return encodeInteger(this.incrementBy(this.requireArg(rest, 0), 1));
+        case 'INCRBY':
+          return encodeInteger(this.incrementBy(this.requireArg(rest, 0), this.parseInteger(this.requireArg(rest, 1))));
+        case 'PEXPIRE':
+          return encodeInteger(this.pexpire(rest));
+        case 'PTTL':
+          return encodeInteger(this.pttl(this.requireArg(rest, 0)));
+        case 'EVAL':
+          return this.eval(rest);
+        case 'SCAN':
+          return this.scan(rest);
+        case 'KEYS':
+          return encodeArray(this.matchingKeys(this.requireArg(rest, 0)).map(key => encodeBulk(key)));
+        case 'DBSIZE':
+          return encodeInteger(this.matchingKeys('*').length);
+        case 'FLUSHDB':
+        case 'FLUSHALL':
+          this.data.clear();
+          return encodeSimple('OK');
+        default:
+          return encodeError(`ERR unknown command '${rawName ?? ''}'`);
+      }
+    } catch (error) {
+      return encodeError((error as Error).message);
+    }
+  }
+
+  private set(args: string[]): Buffer {
+    const key = this.requireArg(args, 0);
+    const value = this.requireArg(args, 1);
+    let expiresAt: number | null = null;
+    let onlyIfMissing = false;
+    let onlyIfExists = false;
+
+    for (let i = 2; i < args.length; i++) {
+      const option = args[i]!.toUpperCase();
+      if (option === 'PX') {
+        expiresAt = this.clock.now() + this.parseInteger(this.requireArg(args, ++i));
+      } else if (option === 'EX') {
+        expiresAt = this.clock.now() + this.parseInteger(this.requireArg(args, ++i)) * 1000;
+      } else if (option === 'NX') {
+        onlyIfMissing = true;
+      } else if (option === 'XX') {
+        onlyIfExists = true;
+      } else {
+        throw new RespError('ERR syntax error');
+      }
+    }
+
+    const exists = this.read(key) !== null;
+    if ((onlyIfMissing && exists) || (onlyIfExists && !exists)) {
+      return encodeBulk(null);
+    }
+
+    this.write(key, value, expiresAt);
+    return encodeSimple('OK');
+  }
+
+  private incrementBy(key: string, amount: number): number {
+    const current = this.read(key);
+    const base = current ? this.parseInteger(current.value) : 0;
+    const next = base + amount;
+
+    this.write(key, String(next), current?.expiresAt ?? null);
+    return next;
+  }
+
+  private pexpire(args: string[]): number {
+    const key = this.requireArg(args, 0);
+    const ttl = this.parseInteger(this.requireArg(args, 1));
+    const onlyIfNoExpiry = args[2]?.toUpperCase() === 'NX';
+    const entry = this.read(key);
+
+    if (!entry || (onlyIfNoExpiry && entry.expiresAt !== null)) {
+      return 0;
+    }
+    entry.expiresAt = this.clock.now() + ttl;
+    return 1;
+  }
+
+  private pttl(key: string): number {
+    const entry = this.read(key);
+    if (!entry) return -2;
+    if (entry.expiresAt === null) return -1;
+    return Math.max(0, entry.expiresAt - this.clock.now());
+  }
+
+  private eval(args: string[]): Buffer {
+    const script = this.scripts.get(this.requireArg(args, 0));
+    if (!script) {
+      throw new RespError('ERR RespServer only runs the scripts in src/cache/resp/scripts.ts');
+    }
+    const keyCount = this.parseInteger(this.requireArg(args, 1));
+    if (keyCount < 0 || keyCount > args.length - 2) {
+      throw new RespError('ERR Number of keys can\'t be greater than number of args');
+    }
+    return script(args.slice(2, 2 + keyCount), args.slice(2 + keyCount));
+  }
+
+  private compareAndDelete(key: string, expected: string): number {
+    return this.read(key)?.value === expected && this.data.delete(key) ? 1 : 0;
+  }
+
+  private scan(args: string[]): Buffer {
+    const cursor = this.parseInteger(this.requireArg(args, 0));
+    let pattern = '*';
+    let count = 10;
+
+    for (let i = 1; i < args.length; i++) {
+      const option = args[i]!.toUpperCase();
+      if (option === 'MATCH') {
+        pattern = this.requireArg(args, ++i);
+      } else if (option === 'COUNT') {
+        count = this.parseInteger(this.requireArg(args, ++i));
+        if (count < 1) {
+          throw new RespError('ERR syntax error');
+        }
+      } else {
+        throw new RespError('ERR syntax error');
+      }
+    }
+
+    // The cursor is the sequence number of the last key visited, so keys
+    // deleted between pages don't shift the iteration and skip others
+    const page = Array.from(this.data.entries()).filter(([, entry]) => entry.seq > cursor);
+    const visited = page.slice(0, count);
+    const nextCursor = visited.length < page.length ? visited[visited.length - 1]![1].seq : 0;
+    const regex = globToRegExp(pattern);
+    const matched = visited.map(([key]) => key).filter(key => this.read(key) && regex.test(key));
+
+    return encodeArray([
+      encodeBulk(String(nextCursor)),
+      encodeArray(matched.map(key => encodeBulk(key)))
+    ]);
+  }
+
+  private matchingKeys(pattern: string): string[] {
+    const regex = globToRegExp(pattern);
+    return Array.from(this.data.keys()).filter(key => this.read(key) && regex.test(key));
+  }
+
+  // Overwrites keep their place in SCAN order, as they do in Redis
+  private write(key: string, value: string, expiresAt: number | null): void {
+    const seq = this.data.get(key)?.seq ?? this.nextSeq++;
+    this.data.set(key, { value, expiresAt, seq });
+  }
+
+  // Lazily expire keys on access, the same way Redis does
+  private read(key: string): StoredValue | null {
+    const entry = this.data.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt !== null && this.clock.now() >= entry.expiresAt) {
+      this.data.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  private requireArg(args: string[], index: number): string {
+    const value = args[index];
+    if (value === undefined) {
+      throw new RespError('ERR wrong number of arguments');
+    }
+    return value;
+  }
+
+  private parseInteger(value: string): number {
+    if (!/^-?\d+$/.test(value)) {
+      throw new RespError('ERR value is not an integer or out of range');
+    }
+    return parseInt(value);
+  }
+}
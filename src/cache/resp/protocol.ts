@@ -0,0 +1,105 @@
+// Minimal RESP2 encoder/decoder shared by RespClient and the in-process RespServer
+
+const CRLF = '\r\n';
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+export type RespValue = string | number | null | RespError | RespValue[];
+
+export function encodeCommand(args: Array<string | number>): Buffer {
+  return encodeArray(args.map(arg => encodeBulk(String(arg))));
+}
+
+export function encodeSimple(value: string): Buffer {
+  return Buffer.from(`+${value}${CRLF}`);
+}
+
+export function encodeError(message: string): Buffer {
+  return Buffer.from(`-${message}${CRLF}`);
+}
+
+export function encodeInteger(value: number): Buffer {
+  return Buffer.from(`:${Math.trunc(value)}${CRLF}`);
+}
+
+export function encodeBulk(value: string | null): Buffer {
+  if (value === null) {
+    return Buffer.from(`$-1${CRLF}`);
+  }
+  const data = Buffer.from(value, 'utf8');
+  return Buffer.concat([Buffer.from(`$${data.length}${CRLF}`), data, Buffer.from(CRLF)]);
+}
+
+export function encodeArray(items: Buffer[] | null): Buffer {
+  if (items === null) {
+    return Buffer.from(`*-1${CRLF}`);
+  }
+  return Buffer.concat([Buffer.from(`*${items.length}${CRLF}`), ...items]);
+}
+
+// Incremental parser: feed socket chunks with push(), drain complete values with next()
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+  }
+
+  next(): { value: RespValue } | undefined {
+    const result = this.parse(0);
+    if (!result) return undefined;
+
+    this.buffer = this.buffer.subarray(result.offset);
+    return { value: result.value };
+  }
+
+  private parse(offset: number): { value: RespValue; offset: number } | undefined {
+    if (offset >= this.buffer.length) return undefined;
+
+    const lineEnd = this.buffer.indexOf(CRLF, offset);
+    if (lineEnd === -1) return undefined;
+
+    const type = String.fromCharCode(this.buffer[offset]!);
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd);
+    const next = lineEnd + CRLF.length;
+
+    switch (type) {
+      case '+':
+        return { value: line, offset: next };
+      case '-':
+        return { value: new RespError(line), offset: next };
+      case ':':
+        return { value: Number(line), offset: next };
+      case '$': {
+        const length = Number(line);
+        if (length < 0) return { value: null, offset: next };
+        if (this.buffer.length < next + length + CRLF.length) return undefined;
+        return {
+          value: this.buffer.toString('utf8', next, next + length),
+          offset: next + length + CRLF.length
+        };
+      }
+      case '*': {
+        const count = Number(line);
+        if (count < 0) return { value: null, offset: next };
+
+        const items: RespValue[] = [];
+        let cursor = next;
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(cursor);
+          if (!item) return undefined;
+          items.push(item.value);
+          cursor = item.offset;
+        }
+        return { value: items, offset: cursor };
+      }
+      default:
+        throw new RespError(`Protocol error: unexpected type byte '${type}'`);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+// Lua scripts the RESP-backed stores run with EVAL. RespServer has no Lua
+// interpreter: it recognises these exact sources and runs an equivalent, so a
+// script changed here must be changed there too.
+
+// Deletes KEYS[1] only if it still holds ARGV[1]; replies 1 if it was deleted
+export const COMPARE_AND_DELETE_SCRIPT =
+  "if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) else return 0 end";
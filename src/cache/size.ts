@@ -0,0 +1,8 @@
+// Estimates how many bytes an entry holds; used for LRUCache's byte budget
+export type CacheSizer<T> = (value: T, key: string) => number;
+
+// UTF-8 length of the key plus the value serialized as JSON. Cheap and close
+// enough for plain data objects; pass a custom sizer for anything else.
+export function estimateJsonSize<T>(value: T, key: string): number {
+  return Buffer.byteLength(key, 'utf8') + Buffer.byteLength(JSON.stringify(value) ?? '', 'utf8');
+}
@@ -0,0 +1,17 @@
+import { CacheSetOptions } from '../types';
+
+// Effective TTL for one entry: the per-entry override (or the store default),
+// spread by up to ±jitter of itself
+export function resolveTtl(defaultTtlMs: number, options: CacheSetOptions = {}): number {
+  const ttl = options.ttlMs ?? defaultTtlMs;
+  const jitter = options.jitter ?? 0;
+
+  if (!Number.isFinite(ttl) || ttl <= 0) {
+    throw new Error(`Cache TTL must be a positive number of milliseconds, got ${ttl}`);
+  }
+  if (!Number.isFinite(jitter) || jitter < 0 || jitter > 1) {
+    throw new Error(`Cache TTL jitter must be between 0 and 1, got ${jitter}`);
+  }
+
+  return Math.max(1, Math.round(ttl * (1 + (Math.random() * 2 - 1) * jitter)));
+}
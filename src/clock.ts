@@ -0,0 +1,38 @@
+import { Clock, Timer } from './types';
+
+// Wall-clock time and Node's timers. Intervals are unref'd: background
+// cleanup alone shouldn't keep the process running.
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout(callback: () => void, ms: number): Timer {
+    const handle = setTimeout(callback, ms);
+    return { cancel: () => clearTimeout(handle) };
+  },
+  setInterval(callback: () => void, ms: number): Timer {
+    const handle = setInterval(callback, ms);
+    handle.unref();
+    return { cancel: () => clearInterval(handle) };
+  }
+};
+
+// Resolves after ms on the given clock. Rejects with an AbortError if the
+// signal fires first, like setTimeout from timers/promises.
+export function sleep(clock: Clock, ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const aborted = () => Object.assign(new Error('The operation was aborted'), { name: 'AbortError', cause: signal?.reason });
+    if (signal?.aborted) {
+      reject(aborted());
+      return;
+    }
+
+    const onAbort = () => {
+      timer.cancel();
+      reject(aborted());
+    };
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,14 @@
+export { loadConfig } from './loadConfig';
+export {
+  CONFIG_SCHEMA,
+  ConfigError,
+  DEFAULT_SETTINGS,
+  RELOADABLE_SETTINGS,
+  SETTING_NAMES,
+  envName,
+  flagName,
+  redactSettings,
+  resolveSettings
+} from './schema';
+export type { ConfigLayer } from './schema';
+export { parseYaml, YamlError } from './yaml';
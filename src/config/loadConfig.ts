@@ -0,0 +1,137 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { AppSettings } from '../types';
+import { parseYaml } from './yaml';
+import {
+  ConfigError,
+  ConfigLayer,
+  SETTING_NAMES,
+  envName,
+  flagName,
+  isSettingName,
+  resolveSettings
+} from './schema';
+
+const FLAGS = new Map(SETTING_NAMES.map(name => [flagName(name), name]));
+
+// --config <file> (or CONFIG_FILE) and one --kebab-case flag per setting,
+// as "--name value" or "--name=value"
+function parseFlags(argv: string[], problems: string[]): { configFile?: string; layer: ConfigLayer } {
+  const values: ConfigLayer['values'] = {};
+  let configFile: string | undefined;
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index]!;
+    const [flag, inline] = arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+    const name = FLAGS.get(flag);
+    if (flag !== '--config' && !name) {
+      problems.push(arg.startsWith('--') ? `Unknown flag ${flag}` : `Unexpected argument "${arg}"`);
+      continue;
+    }
+
+    const value = inline ?? argv[++index];
+    if (value === undefined) {
+      problems.push(`${flag} needs a value`);
+    } else if (name) {
+      values[name] = value;
+    } else {
+      configFile = value;
+    }
+  }
+
+  return {
+    ...(configFile !== undefined ? { configFile } : {}),
+    layer: { values, describe: name => `from ${flagName(name)}` }
+  };
+}
+
+function envLayer(env: NodeJS.ProcessEnv): ConfigLayer {
+  const values: ConfigLayer['values'] = {};
+  for (const name of SETTING_NAMES) {
+    // An empty variable counts as unset
+    const value = env[envName(name)];
+    if (value) {
+      values[name] = value;
+    }
+  }
+  return { values, describe: name => `from ${envName(name)}` };
+}
+
+// Sections group settings by prefix: { cache: { ttlMs: 1 } } is cacheTtlMs.
+// Settings whose values are mappings (logLevels) are taken whole.
+function flatten(object: Record<string, unknown>, prefix: string, into: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(object)) {
+    const name = prefix ? `${prefix}${key.charAt(0).toUpperCase()}${key.slice(1)}` : key;
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && !isSettingName(name)) {
+      flatten(value as Record<string, unknown>, name, into);
+    } else {
+      into[name] = value;
+    }
+  }
+}
+
+// A JSON (.json) or YAML (.yaml, .yml) file of settings, flat or in sections
+function fileLayer(path: string, problems: string[]): ConfigLayer | null {
+  let parsed: unknown;
+  try {
+    const source = readFileSync(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+    if (extension === '.json') {
+      parsed = JSON.parse(source);
+    } else if (extension === '.yaml' || extension === '.yml') {
+      parsed = parseYaml(source);
+    } else {
+      problems.push(`Config file ${path} must be .json, .yaml or .yml`);
+      return null;
+    }
+  } catch (error) {
+    problems.push(`Can't read config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+
+  if (parsed === null) {
+    parsed = {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    problems.push(`Config file ${path} must contain an object of settings`);
+    return null;
+  }
+
+  const flat: Record<string, unknown> = {};
+  flatten(parsed as Record<string, unknown>, '', flat);
+
+  const values: ConfigLayer['values'] = {};
+  for (const [key, value] of Object.entries(flat)) {
+    if (!isSettingName(key)) {
+      problems.push(`Unknown setting "${key}" in ${path}`);
+    } else if (value !== null) {
+      // null leaves the default in place
+      values[key] = value;
+    }
+  }
+  return { values, describe: () => `in ${path}` };
+}
+
+// Settings from defaults, then the config file, then environment variables,
+// then CLI flags. Throws a ConfigError listing every problem found.
+export function loadConfig(argv: string[], env: NodeJS.ProcessEnv): AppSettings {
+  const problems: string[] = [];
+  const flags = parseFlags(argv, problems);
+  const configFile = flags.configFile ?? (env.CONFIG_FILE || undefined);
+  const file = configFile !== undefined ? fileLayer(configFile, problems) : null;
+
+  let settings: AppSettings | null = null;
+  try {
+    settings = resolveSettings([...(file ? [file] : []), envLayer(env), flags.layer]);
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    problems.push(...error.problems);
+  }
+
+  if (!settings || problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return settings;
+}
@@ -0,0 +1,200 @@
+// Parser for the YAML subset config files need: nested block mappings, block
+// sequences ("- item"), flow sequences ("[a, b]"), quoted and plain scalars,
+// and comments. Anchors, multi-line strings, flow mappings and multiple
+// documents are not supported and fail with the offending line number.
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+export class YamlError extends Error {
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+export function parseYaml(source: string): unknown {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, index) => {
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '' || text.trim() === '---') {
+      return;
+    }
+    if (/^\s*\t/.test(text)) {
+      throw new YamlError('Tabs are not allowed for indentation', index + 1);
+    }
+    lines.push({ number: index + 1, indent: text.length - text.trimStart().length, text: text.trim() });
+  });
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const position = { index: 0 };
+  const value = parseBlock(lines, position, lines[0]!.indent);
+  if (position.index < lines.length) {
+    throw new YamlError('Unexpected indentation', lines[position.index]!.number);
+  }
+  return value;
+}
+
+function parseBlock(lines: Line[], position: { index: number }, indent: number): unknown {
+  const first = lines[position.index]!;
+  return isSequenceItem(first.text) ? parseSequence(lines, position, indent) : parseMapping(lines, position, indent);
+}
+
+function parseMapping(lines: Line[], position: { index: number }, indent: number): Record<string, unknown> {
+  const mapping: Record<string, unknown> = {};
+
+  while (position.index < lines.length) {
+    const line = lines[position.index]!;
+    if (line.indent < indent) {
+      break;
+    }
+    if (line.indent > indent) {
+      throw new YamlError('Unexpected indentation', line.number);
+    }
+
+    const match = /^("[^"]*"|'[^']*'|[^:'"]+?)\s*:(?:\s+(.*))?$/.exec(line.text);
+    if (!match) {
+      throw new YamlError(`Expected "key: value", got "${line.text}"`, line.number);
+    }
+    const key = unquote(match[1]!, line.number);
+    if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+      throw new YamlError(`Duplicate key "${key}"`, line.number);
+    }
+    position.index++;
+
+    if (match[2] !== undefined) {
+      mapping[key] = parseScalar(match[2], line.number);
+      continue;
+    }
+
+    // A nested block, or a sequence that may sit at the key's own indentation
+    const next = lines[position.index];
+    if (next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)))) {
+      mapping[key] = parseBlock(lines, position, next.indent);
+    } else {
+      mapping[key] = null;
+    }
+  }
+
+  return mapping;
+}
+
+function parseSequence(lines: Line[], position: { index: number }, indent: number): unknown[] {
+  const sequence: unknown[] = [];
+
+  while (position.index < lines.length) {
+    const line = lines[position.index]!;
+    if (line.indent !== indent || !isSequenceItem(line.text)) {
+      if (line.indent > indent) {
+        throw new YamlError('Unexpected indentation', line.number);
+      }
+      break;
+    }
+    position.index++;
+
+    const item = line.text.slice(1).trim();
+    if (item !== '') {
+      if (/^[^'"[]+?:(\s|$)/.test(item)) {
+        throw new YamlError('Mappings inside sequences are not supported', line.number);
+      }
+      sequence.push(parseScalar(item, line.number));
+      continue;
+    }
+
+    const next = lines[position.index];
+    sequence.push(next && next.indent > indent ? parseBlock(lines, position, next.indent) : null);
+  }
+
+  return sequence;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+function parseScalar(text: string, line: number): unknown {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) {
+      throw new YamlError('Unterminated flow sequence', line);
+    }
+    const inner = text.slice(1, -1).trim();
+    return inner === '' ? [] : splitFlow(inner, line).map(item => parseScalar(item, line));
+  }
+  if (text.startsWith('{')) {
+    throw new YamlError('Flow mappings are not supported', line);
+  }
+  if (text.startsWith('"') || text.startsWith("'")) {
+    if (text.length < 2 || !text.endsWith(text[0]!)) {
+      throw new YamlError('Unterminated quoted string', line);
+    }
+    return unquote(text, line);
+  }
+  if (/^(null|Null|NULL|~)$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  if (/^[&*!|>]/.test(text)) {
+    throw new YamlError(`Unsupported YAML syntax "${text}"`, line);
+  }
+  return text;
+}
+
+// Commas outside quotes separate flow sequence items
+function splitFlow(text: string, line: number): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+  for (const char of text) {
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      throw new YamlError('Nested flow collections are not supported', line);
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  items.push(current.trim());
+  return items;
+}
+
+function unquote(text: string, line: number): string {
+  if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) {
+    // Read as a JSON string, which rejects unknown escapes like "\q"
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      throw new YamlError(`Invalid double-quoted string ${text}`, line);
+    }
+  }
+  if (text.startsWith("'") && text.endsWith("'") && text.length >= 2) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
+
+// "#" starts a comment at the start of a line or after whitespace, outside quotes
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]!;
+    if (quote) {
+      quote = char === quote ? null : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (index === 0 || /\s/.test(line[index - 1]!))) {
+      return line.slice(0, index);
+    }
+  }
+  return line;
+}
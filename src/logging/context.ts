@@ -0,0 +1,14 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { LogContext } from '../types';
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+// Runs fn, and everything it starts asynchronously, with these correlation
+// fields in every log record. Replaces any enclosing context.
+export function runWithLogContext<R>(context: LogContext, fn: () => R): R {
+  return storage.run(context, fn);
+}
+
+export function currentLogContext(): LogContext | undefined {
+  return storage.getStore();
+}
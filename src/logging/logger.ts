@@ -0,0 +1,121 @@
+import { LogContext, LogLevel, LogRecord } from '../types';
+import { currentLogContext } from './context';
+
+export type LogSink = (record: LogRecord) => void;
+
+export interface LoggingOptions {
+  // Minimum level for modules without an override
+  level: LogLevel;
+  levels: Record<string, LogLevel>;
+  // Field names (case-insensitive) whose values are never written
+  redact: string[];
+  sink: LogSink;
+}
+
+const SEVERITY: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 50 };
+
+// One JSON object per line; warnings and errors go to stderr
+export const jsonSink: LogSink = record => {
+  const line = `${JSON.stringify(record)}\n`;
+  if (record.level === 'warn' || record.level === 'error') {
+    process.stderr.write(line);
+  } else {
+    process.stdout.write(line);
+  }
+};
+
+export const DEFAULT_REDACTED_FIELDS = ['email', 'password', 'authorization', 'x-api-key', 'apiKey', 'token', 'secret', 'cookie'];
+
+// Shared by every logger, so a reconfiguration reaches all modules at once
+const options: LoggingOptions = {
+  level: 'info',
+  levels: {},
+  redact: DEFAULT_REDACTED_FIELDS,
+  sink: jsonSink
+};
+let redacted = new Set(options.redact.map(field => field.toLowerCase()));
+
+// Process-wide, like the console it replaces
+export function configureLogging(changes: Partial<LoggingOptions>): void {
+  Object.assign(options, changes);
+  redacted = new Set(options.redact.map(field => field.toLowerCase()));
+}
+
+// Errors become plain objects (JSON.stringify drops their fields), and
+// redacted fields are masked at any depth. `ancestors` catches cycles; an
+// object referenced twice side by side is written twice.
+function sanitize(value: unknown, ancestors: Set<object>): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...(value.stack ? { stack: value.stack } : {}) };
+  }
+  // Dates (and anything else with toJSON) serialize themselves
+  if (value === null || typeof value !== 'object' || typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+    return value;
+  }
+  if (ancestors.has(value)) {
+    return '[circular]';
+  }
+  ancestors.add(value);
+  const sanitized = Array.isArray(value)
+    ? value.map(entry => sanitize(entry, ancestors))
+    : Object.fromEntries(Object.entries(value).map(([key, entry]) => [
+      key,
+      redacted.has(key.toLowerCase()) ? '[redacted]' : sanitize(entry, ancestors)
+    ]));
+  ancestors.delete(value);
+  return sanitized;
+}
+
+export class Logger {
+  private readonly module: string;
+
+  constructor(module: string) {
+    this.module = module;
+  }
+
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean {
+    const threshold = options.levels[this.module] ?? options.level;
+    return SEVERITY[level] >= SEVERITY[threshold];
+  }
+
+  debug(msg: string, fields?: Record<string, unknown>): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: Record<string, unknown>): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: Record<string, unknown>): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: Record<string, unknown>): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, msg: string, fields: Record<string, unknown> = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const context: LogContext = currentLogContext() ?? {};
+    const record = {
+      time: new Date().toISOString(),
+      level,
+      module: this.module,
+      msg,
+      ...(sanitize({ ...context, ...fields }, new Set()) as Record<string, unknown>)
+    } as LogRecord;
+
+    try {
+      options.sink(record);
+    } catch {
+      // Logging never fails the caller
+    }
+  }
+}
+
+export function createLogger(module: string): Logger {
+  return new Logger(module);
+}
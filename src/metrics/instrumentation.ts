@@ -0,0 +1,136 @@
+import { Request, Response, NextFunction } from 'express';
+import { CacheStore } from '../types';
+import { RateLimiter } from '../middleware/rateLimiter';
+import { DatabaseService } from '../services/DatabaseService';
+import { MetricsRegistry } from './registry';
+
+// Cache activity from the store's events; size from getStats() at scrape time
+export function instrumentCache(registry: MetricsRegistry, cache: CacheStore<unknown>): void {
+  const hits = registry.counter('cache_hits', 'Cache lookups answered from the cache', ['status']);
+  const misses = registry.counter('cache_misses', 'Cache lookups that found no usable entry');
+  const sets = registry.counter('cache_sets', 'Values written to the cache');
+  const evictions = registry.counter('cache_evictions', 'Entries removed before expiring', ['reason']);
+  const expirations = registry.counter('cache_expirations', 'Entries removed after expiring');
+  const clears = registry.counter('cache_clears', 'Times the whole cache was cleared');
+  const entries = registry.gauge('cache_entries', 'Entries currently cached');
+  const bytes = registry.gauge('cache_bytes', 'Estimated bytes currently cached (0 when not tracked)');
+
+  cache.subscribe(event => {
+    switch (event.type) {
+      case 'hit':
+        hits.inc({ status: event.status });
+        break;
+      case 'miss':
+        misses.inc();
+        break;
+      case 'set':
+        sets.inc();
+        break;
+      case 'evict':
+        evictions.inc({ reason: event.reason });
+        break;
+      case 'expire':
+        expirations.inc();
+        break;
+      case 'clear':
+        clears.inc();
+        break;
+    }
+  });
+
+  registry.addCollector(async () => {
+    const stats = await cache.getStats();
+    entries.set(stats.currentSize);
+    bytes.set(stats.currentBytes);
+  });
+}
+
+export function instrumentRateLimiter(registry: MetricsRegistry, rateLimiter: RateLimiter): void {
+  const requests = registry.counter(
+    'rate_limit_requests',
+    'Rate limit decisions by policy, outcome and reason',
+    ['policy', 'outcome', 'reason']
+  );
+
+  rateLimiter.onOutcome(outcome => {
+    requests.inc({
+      policy: outcome.policy,
+      outcome: outcome.allowed ? 'allowed' : 'rejected',
+      reason: outcome.reason
+    });
+  });
+}
+
+export function instrumentQueue(registry: MetricsRegistry, dbService: DatabaseService): void {
+  const depth = registry.gauge('queue_depth', 'Jobs waiting to be processed', ['priority']);
+  const running = registry.gauge('queue_running_jobs', 'Jobs being processed');
+  const limit = registry.gauge('queue_concurrency_limit', 'Jobs allowed to run at once (adaptive)');
+  const shed = registry.counter('queue_shed_requests', 'Requests rejected because the queue was full', ['priority']);
+  const waiting = registry.gauge('queue_pending_requests', 'Requests waiting on a queued or running job');
+  const latency = registry.histogram(
+    'queue_job_duration_seconds',
+    'Time from enqueueing a job until it settled',
+    ['priority', 'outcome']
+  );
+  const batchSize = registry.histogram(
+    'queue_job_batch_size',
+    'Requests settled by one job',
+    [],
+    [1, 2, 5, 10, 25, 50, 100]
+  );
+
+  const breakerState = registry.gauge('circuit_breaker_state', 'Database circuit breaker state (1 for the current one)', ['state']);
+  const breakerRejections = registry.counter('circuit_breaker_rejected_calls', 'Calls failed fast by the open database circuit breaker');
+
+  const reportedShed = { interactive: 0, background: 0 };
+  let reportedRejections = 0;
+
+  dbService.onJobSettled(event => {
+    latency.observe(event.durationMs / 1000, { priority: event.priority, outcome: event.outcome });
+    batchSize.observe(event.batchSize);
+  });
+
+  registry.addCollector(() => {
+    const stats = dbService.getQueueStats();
+    depth.set(stats.lanes.interactive, { priority: 'interactive' });
+    depth.set(stats.lanes.background, { priority: 'background' });
+    running.set(stats.runningJobs);
+    limit.set(stats.concurrencyLimit);
+    // The service keeps running totals; the counter advances by the difference
+    (['interactive', 'background'] as const).forEach(priority => {
+      shed.inc({ priority }, stats.shedRequests[priority] - reportedShed[priority]);
+      reportedShed[priority] = stats.shedRequests[priority];
+    });
+    waiting.set(stats.totalPendingRequests);
+
+    const breaker = dbService.getCircuitBreakerStatus();
+    (['closed', 'open', 'half-open'] as const).forEach(state => {
+      breakerState.set(breaker.state === state ? 1 : 0, { state });
+    });
+    breakerRejections.inc({}, breaker.rejectedCalls - reportedRejections);
+    reportedRejections = breaker.rejectedCalls;
+  });
+}
+
+// Request durations by route pattern (not raw path, to keep label cardinality
+// bounded) and status. Requests answered before routing, such as 429s and
+// 404s, are labeled 'unmatched'.
+export function httpMetrics(registry: MetricsRegistry) {
+  const duration = registry.histogram(
+    'http_request_duration_seconds',
+    'HTTP request duration by method, route and status',
+    ['method', 'route', 'status']
+  );
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const start = process.hrtime.bigint();
+
+    res.on('finish', () => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      const route = req.route ? req.baseUrl + (req.route.path as string) : 'unmatched';
+      duration.observe(seconds, { method: req.method, route, status: String(res.statusCode) });
+    });
+
+    next();
+  };
+}
@@ -0,0 +1,163 @@
+import { Awaitable } from '../types';
+
+type Labels = Record<string, string>;
+
+// Default buckets (seconds) for request and job latencies
+export const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly labelNames: string[]
+  ) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+  abstract samples(): string[];
+
+  // Labels in declaration order, so the same label set always maps to one series
+  protected seriesKey(labels: Labels): string {
+    return this.labelNames.map(name => labels[name] ?? '').join('\u0000');
+  }
+
+  protected formatLabels(key: string, extra: Labels = {}): string {
+    const values = key === '' && this.labelNames.length === 0 ? [] : key.split('\u0000');
+    const pairs = this.labelNames.map((name, index) => `${name}="${escapeLabel(values[index] ?? '')}"`);
+    Object.entries(extra).forEach(([name, value]) => pairs.push(`${name}="${escapeLabel(value)}"`));
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter' as const;
+  private readonly values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[]) {
+    super(name, help, labelNames);
+    // A label-less counter is exported as 0 before its first increment
+    if (labelNames.length === 0) {
+      this.values.set('', 0);
+    }
+  }
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    const key = this.seriesKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  samples(): string[] {
+    return Array.from(this.values.entries()).map(([key, value]) =>
+      `${this.name}_total${this.formatLabels(key)} ${formatNumber(value)}`
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge' as const;
+  private readonly values: Map<string, number> = new Map();
+
+  set(value: number, labels: Labels = {}): void {
+    this.values.set(this.seriesKey(labels), value);
+  }
+
+  samples(): string[] {
+    return Array.from(this.values.entries()).map(([key, value]) =>
+      `${this.name}${this.formatLabels(key)} ${formatNumber(value)}`
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram' as const;
+  private readonly buckets: number[];
+  private readonly series: Map<string, { counts: number[]; sum: number; count: number }> = new Map();
+
+  constructor(name: string, help: string, labelNames: string[], buckets: number[] = LATENCY_BUCKETS) {
+    super(name, help, labelNames);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = this.seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.counts[index]!++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    this.series.forEach((series, key) => {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${this.formatLabels(key, { le: formatNumber(bound) })} ${series.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${this.formatLabels(key, { le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${this.formatLabels(key)} ${formatNumber(series.sum)}`);
+      lines.push(`${this.name}_count${this.formatLabels(key)} ${series.count}`);
+    });
+    return lines;
+  }
+}
+
+// Minimal OpenMetrics registry. Counters and histograms are updated as things
+// happen; collectors run before each scrape to refresh gauges.
+export class MetricsRegistry {
+  static readonly CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+  private readonly metrics: Map<string, Metric> = new Map();
+  private readonly collectors: Array<() => Awaitable<void>> = [];
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  addCollector(collector: () => Awaitable<void>): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    await Promise.all(this.collectors.map(collector => collector()));
+
+    const lines: string[] = [];
+    this.metrics.forEach(metric => {
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(...metric.samples());
+    });
+    lines.push('# EOF');
+    return lines.join('\n') + '\n';
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+}
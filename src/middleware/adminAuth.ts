@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiResponse } from '../types';
+
+// Require `Authorization: Bearer <token>` matching the admin token
+export function requireAdminToken(token: string) {
+  // Compare fixed-length digests so the check takes the same time for any input
+  const expected = createHash('sha256').update(token).digest();
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const match = /^Bearer\s+(.+)$/i.exec(req.get('authorization') ?? '');
+    const actual = createHash('sha256').update(match?.[1] ?? '').digest();
+
+    if (!match || !timingSafeEqual(actual, expected)) {
+      const response: ApiResponse = {
+        success: false,
+        error: 'Admin credentials required',
+        timestamp: Date.now()
+      };
+      res.status(401).set('WWW-Authenticate', 'Bearer').json(response);
+      return;
+    }
+
+    next();
+  };
+}
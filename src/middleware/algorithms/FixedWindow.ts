@@ -0,0 +1,57 @@
+import {
+  Clock,
+  RateLimitDecision,
+  RateLimitQuota,
+  RateLimitState,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitUsage
+} from '../../types';
+import { systemClock } from '../../clock';
+
+// Counter that resets at the end of each window. Cheap, but a client can send
+// up to 2x the limit across a window boundary.
+export class FixedWindow implements RateLimitStrategy {
+  readonly name = 'fixed-window' as const;
+  private readonly clock: Clock;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
+  async consume(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<RateLimitDecision> {
+    const counter = await store.increment(key, quota.windowMs, cost);
+    const allowed = counter.count <= quota.limit;
+
+    if (!allowed) {
+      await store.decrement(key, quota.windowMs, cost);
+    }
+
+    return {
+      allowed,
+      limit: quota.limit,
+      remaining: Math.max(0, quota.limit - counter.count),
+      resetTime: counter.resetTime,
+      retryAfterMs: allowed ? 0 : Math.max(0, counter.resetTime - this.clock.now())
+    };
+  }
+
+  async release(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<void> {
+    await store.decrement(key, quota.windowMs, cost);
+  }
+
+  async inspect(store: RateLimitStore, key: string): Promise<RateLimitState | null> {
+    const counter = await store.get(key);
+    return counter ? { algorithm: this.name, count: counter.count, resetTime: counter.resetTime } : null;
+  }
+
+  async reset(store: RateLimitStore, key: string): Promise<void> {
+    await store.resetKey(key);
+  }
+
+  usage(state: RateLimitState, quota: RateLimitQuota, now: number): RateLimitUsage {
+    const count = state.algorithm === this.name ? state.count : 0;
+    const resetTime = state.algorithm === this.name ? state.resetTime : now;
+    return { used: count, limit: quota.limit, remaining: Math.max(0, quota.limit - count), resetTime };
+  }
+}
@@ -0,0 +1,82 @@
+import {
+  RateLimitDecision,
+  RateLimitQuota,
+  RateLimitState,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitUsage
+} from '../../types';
+
+type GcraState = Extract<RateLimitState, { algorithm: 'gcra' }>;
+
+// Generic Cell Rate Algorithm: tracks a single "theoretical arrival time" (TAT)
+// per client. Requests are spaced windowMs/limit apart, with a burst
+// tolerance of the whole window. Same behavior as a token bucket, one number of state.
+export class Gcra implements RateLimitStrategy {
+  readonly name = 'gcra' as const;
+
+  async consume(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<RateLimitDecision> {
+    const { limit, windowMs } = quota;
+    const emissionInterval = windowMs / limit;
+
+    return store.update<GcraState, RateLimitDecision>(key, (current, now) => {
+      const tat = Math.max(current?.tat ?? now, now);
+      const newTat = tat + emissionInterval * cost;
+      const allowAt = newTat - windowMs;
+
+      if (now < allowAt) {
+        return {
+          state: { algorithm: this.name, tat },
+          ttlMs: Math.max(1, tat - now),
+          result: {
+            allowed: false,
+            limit,
+            remaining: 0,
+            resetTime: tat,
+            retryAfterMs: Math.ceil(allowAt - now)
+          }
+        };
+      }
+
+      return {
+        state: { algorithm: this.name, tat: newTat },
+        ttlMs: Math.max(1, newTat - now),
+        result: {
+          allowed: true,
+          limit,
+          remaining: Math.max(0, Math.floor((windowMs - (newTat - now)) / emissionInterval)),
+          resetTime: Math.ceil(newTat),
+          retryAfterMs: 0
+        }
+      };
+    });
+  }
+
+  async release(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<void> {
+    const emissionInterval = quota.windowMs / quota.limit;
+
+    await store.update<GcraState, void>(key, (current, now) => {
+      const tat = Math.max((current?.tat ?? now) - emissionInterval * cost, now);
+      return {
+        state: { algorithm: this.name, tat },
+        ttlMs: Math.max(1, tat - now),
+        result: undefined
+      };
+    });
+  }
+
+  async inspect(store: RateLimitStore, key: string): Promise<RateLimitState | null> {
+    return store.getState<GcraState>(key);
+  }
+
+  async reset(store: RateLimitStore, key: string): Promise<void> {
+    await store.resetKey(key);
+  }
+
+  usage(state: RateLimitState, quota: RateLimitQuota, now: number): RateLimitUsage {
+    const emissionInterval = quota.windowMs / quota.limit;
+    const tat = state.algorithm === this.name ? Math.max(state.tat, now) : now;
+    const used = Math.min(quota.limit, Math.ceil((tat - now) / emissionInterval));
+    return { used, limit: quota.limit, remaining: quota.limit - used, resetTime: Math.ceil(tat) };
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  Clock,
+  RateLimitDecision,
+  RateLimitQuota,
+  RateLimitState,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitUsage
+} from '../../types';
+import { systemClock } from '../../clock';
+
+// Approximates a true sliding window from two fixed-window counters: the
+// previous window's count is weighted by how much of it still overlaps.
+export class SlidingWindowCounter implements RateLimitStrategy {
+  readonly name = 'sliding-window-counter' as const;
+  private readonly clock: Clock;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
+  async consume(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<RateLimitDecision> {
+    const { limit, windowMs } = quota;
+    const now = this.clock.now();
+    const windowStart = this.windowStart(now, windowMs);
+    const currentKey = `${key}:${windowStart}`;
+
+    // Counters live for two windows so they can serve as the "previous" one
+    const [current, previous] = await Promise.all([
+      store.increment(currentKey, windowMs * 2, cost),
+      store.get(`${key}:${windowStart - windowMs}`)
+    ]);
+
+    const previousCount = previous?.count ?? 0;
+    const overlap = 1 - (now - windowStart) / windowMs;
+    const estimated = previousCount * overlap + current.count;
+    const resetTime = windowStart + windowMs;
+
+    if (estimated <= limit) {
+      return {
+        allowed: true,
+        limit,
+        remaining: Math.max(0, Math.floor(limit - estimated)),
+        resetTime,
+        retryAfterMs: 0
+      };
+    }
+
+    await store.decrement(currentKey, windowMs * 2, cost);
+
+    // The estimate drops by previousCount/windowMs per ms as the previous window slides out
+    const untilReset = resetTime - now;
+    const retryAfterMs = previousCount > 0
+      ? Math.min(untilReset, Math.ceil(((estimated - limit) / previousCount) * windowMs))
+      : untilReset;
+
+    return { allowed: false, limit, remaining: 0, resetTime, retryAfterMs };
+  }
+
+  async release(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<void> {
+    const windowStart = this.windowStart(this.clock.now(), quota.windowMs);
+    await store.decrement(`${key}:${windowStart}`, quota.windowMs * 2, cost);
+  }
+
+  async inspect(store: RateLimitStore, key: string, quota: RateLimitQuota): Promise<RateLimitState | null> {
+    const windowStart = this.windowStart(this.clock.now(), quota.windowMs);
+    const [current, previous] = await Promise.all([
+      store.get(`${key}:${windowStart}`),
+      store.get(`${key}:${windowStart - quota.windowMs}`)
+    ]);
+
+    if (!current && !previous) {
+      return null;
+    }
+    return {
+      algorithm: this.name,
+      windowStart,
+      currentCount: current?.count ?? 0,
+      previousCount: previous?.count ?? 0
+    };
+  }
+
+  async reset(store: RateLimitStore, key: string, quota: RateLimitQuota): Promise<void> {
+    const windowStart = this.windowStart(this.clock.now(), quota.windowMs);
+    await Promise.all([
+      store.resetKey(`${key}:${windowStart}`),
+      store.resetKey(`${key}:${windowStart - quota.windowMs}`)
+    ]);
+  }
+
+  usage(state: RateLimitState, quota: RateLimitQuota, now: number): RateLimitUsage {
+    if (state.algorithm !== this.name) {
+      return { used: 0, limit: quota.limit, remaining: quota.limit, resetTime: now };
+    }
+    const overlap = 1 - (now - state.windowStart) / quota.windowMs;
+    const used = Math.ceil(state.previousCount * overlap + state.currentCount);
+    return {
+      used,
+      limit: quota.limit,
+      remaining: Math.max(0, quota.limit - used),
+      resetTime: state.windowStart + quota.windowMs
+    };
+  }
+
+  private windowStart(now: number, windowMs: number): number {
+    return Math.floor(now / windowMs) * windowMs;
+  }
+}
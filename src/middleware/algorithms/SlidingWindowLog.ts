@@ -0,0 +1,78 @@
+import {
+  RateLimitDecision,
+  RateLimitQuota,
+  RateLimitState,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitUsage
+} from '../../types';
+
+type LogState = Extract<RateLimitState, { algorithm: 'sliding-window-log' }>;
+
+// Exact sliding window: keeps the timestamp of every accepted request in the
+// window. Memory grows with the limit, so prefer it for small limits.
+export class SlidingWindowLog implements RateLimitStrategy {
+  readonly name = 'sliding-window-log' as const;
+
+  async consume(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<RateLimitDecision> {
+    const { limit, windowMs } = quota;
+
+    return store.update<LogState, RateLimitDecision>(key, (current, now) => {
+      const timestamps = (current?.timestamps ?? []).filter(time => time > now - windowMs);
+      const allowed = timestamps.length + cost <= limit;
+
+      // A request of cost N is logged as N entries
+      if (allowed) {
+        for (let i = 0; i < cost; i++) {
+          timestamps.push(now);
+        }
+      }
+
+      // Entries sliding out of the window free slots for the next request
+      const oldest = timestamps[0] ?? now;
+      const freesAt = (timestamps[Math.max(0, timestamps.length + cost - limit - 1)] ?? now) + windowMs;
+      return {
+        state: { algorithm: this.name, timestamps },
+        ttlMs: windowMs,
+        result: {
+          allowed,
+          limit,
+          remaining: Math.max(0, limit - timestamps.length),
+          resetTime: oldest + windowMs,
+          retryAfterMs: allowed ? 0 : Math.max(0, freesAt - now)
+        }
+      };
+    });
+  }
+
+  async release(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<void> {
+    await store.update<LogState, void>(key, (current, now) => ({
+      state: {
+        algorithm: this.name,
+        timestamps: (current?.timestamps ?? []).filter(time => time > now - quota.windowMs).slice(0, -cost)
+      },
+      ttlMs: quota.windowMs,
+      result: undefined
+    }));
+  }
+
+  async inspect(store: RateLimitStore, key: string): Promise<RateLimitState | null> {
+    return store.getState<LogState>(key);
+  }
+
+  async reset(store: RateLimitStore, key: string): Promise<void> {
+    await store.resetKey(key);
+  }
+
+  usage(state: RateLimitState, quota: RateLimitQuota, now: number): RateLimitUsage {
+    const timestamps = state.algorithm === this.name
+      ? state.timestamps.filter(time => time > now - quota.windowMs)
+      : [];
+    return {
+      used: timestamps.length,
+      limit: quota.limit,
+      remaining: Math.max(0, quota.limit - timestamps.length),
+      resetTime: (timestamps[0] ?? now) + quota.windowMs
+    };
+  }
+}
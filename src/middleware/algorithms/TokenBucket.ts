@@ -0,0 +1,80 @@
+import {
+  RateLimitDecision,
+  RateLimitQuota,
+  RateLimitState,
+  RateLimitStore,
+  RateLimitStrategy,
+  RateLimitUsage
+} from '../../types';
+
+type BucketState = Extract<RateLimitState, { algorithm: 'token-bucket' }>;
+
+// Bucket of `limit` tokens refilled continuously at limit/windowMs. Allows
+// bursts up to the bucket size while holding the long-run average rate.
+export class TokenBucket implements RateLimitStrategy {
+  readonly name = 'token-bucket' as const;
+
+  async consume(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<RateLimitDecision> {
+    const { limit, windowMs } = quota;
+    const ratePerMs = limit / windowMs;
+
+    return store.update<BucketState, RateLimitDecision>(key, (current, now) => {
+      const tokens = this.refill(current, now, quota);
+      const allowed = tokens >= cost;
+      const remaining = allowed ? tokens - cost : tokens;
+      const untilFull = Math.ceil((limit - remaining) / ratePerMs);
+
+      return {
+        state: { algorithm: this.name, tokens: remaining, lastRefill: now },
+        // Once the bucket is full again, a missing key means the same thing
+        ttlMs: Math.max(1, untilFull),
+        result: {
+          allowed,
+          limit,
+          remaining: Math.floor(remaining),
+          resetTime: now + untilFull,
+          retryAfterMs: allowed ? 0 : Math.ceil((cost - remaining) / ratePerMs)
+        }
+      };
+    });
+  }
+
+  async release(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<void> {
+    const ratePerMs = quota.limit / quota.windowMs;
+
+    await store.update<BucketState, void>(key, (current, now) => {
+      const tokens = Math.min(quota.limit, this.refill(current, now, quota) + cost);
+      return {
+        state: { algorithm: this.name, tokens, lastRefill: now },
+        ttlMs: Math.max(1, Math.ceil((quota.limit - tokens) / ratePerMs)),
+        result: undefined
+      };
+    });
+  }
+
+  async inspect(store: RateLimitStore, key: string): Promise<RateLimitState | null> {
+    return store.getState<BucketState>(key);
+  }
+
+  private refill(current: BucketState | null, now: number, quota: RateLimitQuota): number {
+    if (!current) {
+      return quota.limit;
+    }
+    const elapsed = Math.max(0, now - current.lastRefill);
+    return Math.min(quota.limit, current.tokens + elapsed * (quota.limit / quota.windowMs));
+  }
+
+  async reset(store: RateLimitStore, key: string): Promise<void> {
+    await store.resetKey(key);
+  }
+
+  usage(state: RateLimitState, quota: RateLimitQuota, now: number): RateLimitUsage {
+    const tokens = this.refill(state.algorithm === this.name ? state : null, now, quota);
+    return {
+      used: quota.limit - Math.floor(tokens),
+      limit: quota.limit,
+      remaining: Math.floor(tokens),
+      resetTime: now + Math.ceil((quota.limit - tokens) / (quota.limit / quota.windowMs))
+    };
+  }
+}
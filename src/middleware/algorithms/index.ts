@@ -0,0 +1,26 @@
+import { Clock, RateLimitAlgorithmName, RateLimitStrategy } from '../../types';
+import { systemClock } from '../../clock';
+import { FixedWindow } from './FixedWindow';
+import { SlidingWindowLog } from './SlidingWindowLog';
+import { SlidingWindowCounter } from './SlidingWindowCounter';
+import { TokenBucket } from './TokenBucket';
+import { Gcra } from './Gcra';
+
+// Algorithms that don't read the clock take the store's time via update()
+const strategies: Record<RateLimitAlgorithmName, (clock: Clock) => RateLimitStrategy> = {
+  'fixed-window': clock => new FixedWindow(clock),
+  'sliding-window-log': () => new SlidingWindowLog(),
+  'sliding-window-counter': clock => new SlidingWindowCounter(clock),
+  'token-bucket': () => new TokenBucket(),
+  'gcra': () => new Gcra()
+};
+
+export function createRateLimitStrategy(name: RateLimitAlgorithmName, clock: Clock = systemClock): RateLimitStrategy {
+  const factory = strategies[name];
+  if (!factory) {
+    throw new Error(`Unknown rate limit algorithm: ${name}`);
+  }
+  return factory(clock);
+}
+
+export { FixedWindow, SlidingWindowLog, SlidingWindowCounter, TokenBucket, Gcra };
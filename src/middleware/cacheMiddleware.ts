@@ -0,0 +1,168 @@
+import { Request, Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { CachedResponse, CacheStore, Clock } from '../types';
+import { systemClock } from '../clock';
+import { resolveTtl } from '../cache/ttl';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('cache');
+
+export interface CacheMiddlewareOptions {
+  // Cache key for a request; replaces the key built from path, query and vary
+  key?: (req: Request) => string;
+  // Query parameters that select a different response: all (default), none,
+  // or only these
+  query?: boolean | string[];
+  // Request headers that select a different response; they are part of the
+  // key and listed in the Vary response header
+  vary?: string[];
+  // How long responses stay fresh (default: 60s)
+  ttlMs?: number;
+  tags?: string[] | ((req: Request) => string[]);
+}
+
+// Strong validator for a response body
+export function entityTag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+// Request Cache-Control: no-store skips the cache entirely; no-cache (or
+// max-age=0) skips the lookup but stores the fresh response
+function requestDirectives(req: Request): { noStore: boolean; noCache: boolean } {
+  const directives = (req.get('cache-control') ?? '').toLowerCase().split(',').map(directive => directive.trim());
+  return {
+    noStore: directives.includes('no-store'),
+    noCache: directives.includes('no-cache') || directives.includes('max-age=0')
+  };
+}
+
+// Routes can opt their responses out with Cache-Control: no-store or private
+function storable(res: Response): boolean {
+  const cacheControl = String(res.get('Cache-Control') ?? '').toLowerCase();
+  return res.statusCode === 200 && !/\b(no-store|private)\b/.test(cacheControl);
+}
+
+function keyBuilder(options: CacheMiddlewareOptions): (req: Request) => string {
+  const query = options.query ?? true;
+  const vary = (options.vary ?? []).map(header => header.toLowerCase());
+
+  return (req: Request): string => {
+    // The raw query string, so keys don't depend on the query parser
+    const params = new URLSearchParams(req.originalUrl.split('?')[1] ?? '');
+    const selected = Array.from(params.entries())
+      .filter(([name]) => query === true || (Array.isArray(query) && query.includes(name)))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const search = new URLSearchParams(selected).toString();
+    const headers = vary.map(header => `${header}=${req.get(header) ?? ''}`).join('&');
+
+    return `response:${req.baseUrl}${req.path}${search ? `?${search}` : ''}${headers ? `#${headers}` : ''}`;
+  };
+}
+
+// Caches successful GET (and HEAD) responses of the routes it is mounted on.
+// Fresh entries are replayed with X-Cache: HIT, Age and Cache-Control max-age
+// from their remaining TTL; on a miss the route runs and its 200 response is
+// stored. Every response carries an ETag and Last-Modified, and conditional
+// requests that match get a 304 without a body. A failing store never fails
+// the request. Throws at once for an invalid TTL or tags, rather than on every
+// write-back.
+export function cacheMiddleware(
+  cache: CacheStore<CachedResponse>,
+  options: CacheMiddlewareOptions = {},
+  clock: Clock = systemClock
+) {
+  const keyOf = options.key ?? keyBuilder(options);
+  const ttlMs = options.ttlMs ?? 60000;
+  resolveTtl(ttlMs);
+  if (Array.isArray(options.tags) && !options.tags.every(tag => typeof tag === 'string' && tag !== '')) {
+    throw new Error('Cache tags must be non-empty strings');
+  }
+  const tagsOf = typeof options.tags === 'function' ? options.tags : () => (options.tags as string[] | undefined) ?? [];
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      next();
+      return;
+    }
+
+    const { noStore, noCache } = requestDirectives(req);
+    if (noStore) {
+      res.set('X-Cache', 'BYPASS');
+      next();
+      return;
+    }
+
+    const key = keyOf(req);
+    if (options.vary && options.vary.length > 0) {
+      res.vary(options.vary.join(', '));
+    }
+
+    if (!noCache) {
+      try {
+        const lookup = await cache.getEntry(key);
+        if (lookup && lookup.status === 'fresh') {
+          const cached = lookup.value;
+          res.status(cached.status).set({
+            'X-Cache': 'HIT',
+            Age: String(Math.floor(lookup.age / 1000)),
+            'Cache-Control': `max-age=${Math.floor(lookup.freshFor / 1000)}`,
+            ETag: cached.etag,
+            'Last-Modified': new Date(cached.lastModified).toUTCString()
+          });
+
+          // If-None-Match, or If-Modified-Since without it
+          if (req.fresh) {
+            res.status(304).end();
+            return;
+          }
+          if (cached.contentType) {
+            res.type(cached.contentType);
+          }
+          res.send(cached.body);
+          return;
+        }
+      } catch (error) {
+        log.error('Response cache unavailable, skipping lookup', { key, error });
+      }
+    }
+
+    res.set('X-Cache', 'MISS');
+
+    // res.json() (and res.send() with an object) ends in res.send() with the
+    // serialized body; capture that. Validators set here let res.send()
+    // answer a matching conditional request with a 304.
+    const originalSend = res.send;
+    let captured = false;
+    res.send = function(body?: any) {
+      if (!captured && typeof body === 'string') {
+        captured = true;
+        if (storable(res)) {
+          const lastModified = Date.parse(String(res.get('Last-Modified') ?? '')) || clock.now();
+          const cached: CachedResponse = {
+            status: res.statusCode,
+            contentType: res.get('Content-Type') ?? null,
+            body,
+            etag: String(res.get('ETag') ?? entityTag(body)),
+            lastModified
+          };
+          res.set({
+            ETag: cached.etag,
+            'Last-Modified': new Date(lastModified).toUTCString(),
+            ...(res.get('Cache-Control') ? {} : { 'Cache-Control': `max-age=${Math.floor(ttlMs / 1000)}` })
+          });
+          // Inside then() so a store that throws synchronously (a body over
+          // the byte budget, say) is logged like one that rejects, and the
+          // response still goes out uncached
+          Promise.resolve()
+            .then(() => cache.set(key, cached, { ttlMs, tags: tagsOf(req) }))
+            .catch(error => {
+              log.error('Failed to store cached response', { key, error });
+            });
+        }
+      }
+      return originalSend.call(this, body);
+    };
+
+    next();
+  };
+}
@@ -0,0 +1,195 @@
+import { Request } from 'express';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import net from 'net';
+
+// Returns a stable client key, or null to let the next extractor try
+export type ClientIdExtractor = (req: Request) => string | null;
+
+interface IpRange {
+  version: 4 | 6;
+  base: bigint;
+  bits: number;
+}
+
+// Same names Express/proxy-addr accept for 'trust proxy'
+const NAMED_RANGES: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7']
+};
+
+export interface IpExtractorOptions {
+  // CIDRs (or loopback/linklocal/uniquelocal) of proxies allowed to set X-Forwarded-For
+  trustedProxies?: string[];
+  // Alternatively, trust exactly this many proxy hops in front of the app
+  hops?: number;
+}
+
+// Client IP that can't be spoofed via X-Forwarded-For: forwarded addresses are
+// only believed while each hop is a trusted proxy. With no trust configured
+// the socket address is used and the header is ignored.
+export function ipExtractor(options: IpExtractorOptions = {}): ClientIdExtractor {
+  const ranges = (options.trustedProxies ?? []).flatMap(entry => NAMED_RANGES[entry] ?? [entry]).map(parseCidr);
+  const hops = options.hops ?? 0;
+
+  return (req: Request): string | null => {
+    const socketAddress = req.socket.remoteAddress;
+    if (!socketAddress) return null;
+
+    // Nearest hop first: the socket peer, then X-Forwarded-For right to left
+    const forwarded = (req.get('x-forwarded-for') ?? '')
+      .split(',')
+      .map(address => address.trim())
+      .filter(Boolean)
+      .reverse();
+    const chain = [socketAddress, ...forwarded].map(normalizeIp);
+
+    let index = 0;
+    if (hops > 0) {
+      index = Math.min(hops, chain.length - 1);
+    } else {
+      while (index < chain.length - 1 && isTrusted(chain[index]!, ranges)) {
+        index++;
+      }
+    }
+
+    const address = chain[index]!;
+    return net.isIP(address) ? `ip:${address}` : null;
+  };
+}
+
+// Known API keys only: an unknown key must not buy a fresh bucket. Keys are
+// hashed so raw credentials never end up in the counter store.
+export function apiKeyExtractor(keys: Iterable<string>, header: string = 'x-api-key'): ClientIdExtractor {
+  const known = new Set(keys);
+
+  return (req: Request): string | null => {
+    const key = req.get(header);
+    if (!key || !known.has(key)) return null;
+    return `apikey:${createHash('sha256').update(key).digest('hex').slice(0, 16)}`;
+  };
+}
+
+// Subject of an HS256 bearer JWT. The signature and expiry are verified;
+// an unverified token is ignored rather than trusted.
+export function bearerSubjectExtractor(secret: string): ClientIdExtractor {
+  return (req: Request): string | null => {
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') ?? '');
+    if (!match) return null;
+
+    const payload = verifyHs256(match[1]!, secret);
+    if (!payload || typeof payload.sub !== 'string' || payload.sub === '') return null;
+    return `sub:${payload.sub}`;
+  };
+}
+
+// Value of a header set by a trusted gateway (e.g. X-User-Id). Only safe when
+// clients cannot reach the app without passing through that gateway.
+export function headerExtractor(header: string): ClientIdExtractor {
+  return (req: Request): string | null => {
+    const value = req.get(header);
+    return value ? `${header.toLowerCase()}:${value}` : null;
+  };
+}
+
+// Method and path, for use in composite keys such as ip+route
+export function routeExtractor(): ClientIdExtractor {
+  return (req: Request): string | null => `route:${req.method} ${req.baseUrl + req.path}`;
+}
+
+// All parts must resolve; e.g. compositeExtractor(ipExtractor(), routeExtractor())
+export function compositeExtractor(...extractors: ClientIdExtractor[]): ClientIdExtractor {
+  return (req: Request): string | null => {
+    const parts: string[] = [];
+    for (const extractor of extractors) {
+      const part = extractor(req);
+      if (part === null) return null;
+      parts.push(part);
+    }
+    return parts.join('|');
+  };
+}
+
+// Try extractors in order; the first non-null key wins
+export function chainExtractors(...extractors: ClientIdExtractor[]): ClientIdExtractor {
+  return (req: Request): string | null => {
+    for (const extractor of extractors) {
+      const key = extractor(req);
+      if (key !== null) return key;
+    }
+    return null;
+  };
+}
+
+function verifyHs256(token: string, secret: string): Record<string, unknown> | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const parsedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'));
+    if (parsedHeader.alg !== 'HS256') return null;
+
+    const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest();
+    const actual = Buffer.from(signature, 'base64url');
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now()) return null;
+    if (typeof claims.nbf === 'number' && claims.nbf * 1000 > Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeIp(address: string): string {
+  // Treat IPv4-mapped IPv6 addresses (::ffff:1.2.3.4) as plain IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? mapped[1]! : address;
+}
+
+function isTrusted(address: string, ranges: IpRange[]): boolean {
+  const version = net.isIP(address);
+  if (version === 0) return false;
+
+  const value = ipToBigInt(address, version);
+  const width = version === 4 ? 32 : 128;
+  return ranges.some(range =>
+    range.version === version &&
+    (value >> BigInt(width - range.bits)) === (range.base >> BigInt(width - range.bits))
+  );
+}
+
+function parseCidr(cidr: string): IpRange {
+  const [address, bits] = cidr.split('/');
+  const version = net.isIP(address ?? '');
+  if (version === 0) {
+    throw new Error(`Invalid trusted proxy address: ${cidr}`);
+  }
+
+  const width = version === 4 ? 32 : 128;
+  const prefix = bits === undefined ? width : parseInt(bits);
+  if (isNaN(prefix) || prefix < 0 || prefix > width) {
+    throw new Error(`Invalid trusted proxy prefix length: ${cidr}`);
+  }
+  return { version: version as 4 | 6, base: ipToBigInt(address!, version), bits: prefix };
+}
+
+function ipToBigInt(address: string, version: number): bigint {
+  if (version === 4) {
+    return address.split('.').reduce((value, octet) => (value << 8n) + BigInt(parseInt(octet)), 0n);
+  }
+
+  // Expand '::' and any embedded IPv4 tail into eight 16-bit groups
+  let groups = address.split('::').map(part => (part ? part.split(':') : []));
+  groups = groups.map(part => part.flatMap(group => {
+    if (!group.includes('.')) return [group];
+    const v4 = ipToBigInt(group, 4);
+    return [(v4 >> 16n).toString(16), (v4 & 0xffffn).toString(16)];
+  }));
+
+  const [head = [], tail = []] = groups;
+  const missing = 8 - head.length - tail.length;
+  const full = groups.length > 1 ? [...head, ...Array(missing).fill('0'), ...tail] : head;
+  return full.reduce((value, group) => (value << 16n) + BigInt(parseInt(group, 16)), 0n);
+}
@@ -0,0 +1,105 @@
+import { Request } from 'express';
+import { ClientTier, RateLimitQuota, RateLimitRule, ResolvedRateLimitPolicy } from '../types';
+
+export type TierResolver = (req: Request) => ClientTier;
+
+interface CompiledRule {
+  rule: RateLimitRule;
+  methods: Set<string> | null;
+  path: RegExp | null;
+  tiers: Set<ClientTier> | null;
+}
+
+// Map known API keys (sent in X-API-Key) to tiers; everyone else is anonymous
+export function apiKeyTierResolver(apiKeys: Record<string, ClientTier>, header: string = 'x-api-key'): TierResolver {
+  return (req: Request): ClientTier => {
+    const key = req.get(header);
+    return (key && apiKeys[key]) || 'anonymous';
+  };
+}
+
+// Compile an Express-style path pattern: ':param' matches one segment,
+// '*' matches anything (including '/'); a trailing slash is optional
+export function compilePathPattern(pattern: string): RegExp {
+  const source = pattern
+    .split('/')
+    .map(segment => {
+      if (segment.startsWith(':')) return '[^/]+';
+      return segment
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    })
+    .join('/');
+
+  return new RegExp(`^${source.replace(/\/$/, '')}/?$`);
+}
+
+// Resolves the rule that applies to a request. Rules are checked in order and
+// the first match wins; requests matching no rule get the 'default' policy.
+export class RateLimitPolicyEngine {
+  private readonly rules: CompiledRule[];
+  private readonly resolveTier: TierResolver;
+
+  constructor(rules: RateLimitRule[] = [], resolveTier: TierResolver = () => 'anonymous') {
+    const names = new Set<string>();
+    rules.forEach(rule => {
+      if (names.has(rule.name) || rule.name === 'default') {
+        throw new Error(`Duplicate rate limit rule name: ${rule.name}`);
+      }
+      if (rule.cost !== undefined && (!Number.isInteger(rule.cost) || rule.cost < 1)) {
+        throw new Error(`Rate limit rule ${rule.name} must have a positive integer cost`);
+      }
+      names.add(rule.name);
+    });
+
+    this.rules = rules.map(rule => ({
+      rule,
+      methods: rule.methods ? new Set(rule.methods.map(method => method.toUpperCase())) : null,
+      path: rule.path ? compilePathPattern(rule.path) : null,
+      tiers: rule.tiers ? new Set(rule.tiers) : null
+    }));
+    this.resolveTier = resolveTier;
+  }
+
+  resolve(req: Request, defaults: { window: RateLimitQuota; burst: RateLimitQuota }): ResolvedRateLimitPolicy {
+    const tier = this.resolveTier(req);
+    const path = req.baseUrl + req.path;
+    const match = this.rules.find(({ methods, path: pattern, tiers }) =>
+      (!methods || methods.has(req.method)) &&
+      (!pattern || pattern.test(path)) &&
+      (!tiers || tiers.has(tier))
+    );
+
+    return this.toPolicy(match?.rule, tier, defaults);
+  }
+
+  // Every non-exempt policy that can hold counters (for resets)
+  policies(defaults: { window: RateLimitQuota; burst: RateLimitQuota }): ResolvedRateLimitPolicy[] {
+    return [
+      ...this.rules.map(({ rule }) => this.toPolicy(rule, 'anonymous', defaults)),
+      this.toPolicy(undefined, 'anonymous', defaults)
+    ].filter(policy => !policy.exempt);
+  }
+
+  private toPolicy(
+    rule: RateLimitRule | undefined,
+    tier: ClientTier,
+    defaults: { window: RateLimitQuota; burst: RateLimitQuota }
+  ): ResolvedRateLimitPolicy {
+    return {
+      name: rule?.name ?? 'default',
+      tier,
+      exempt: rule?.exempt ?? false,
+      cost: rule?.cost ?? 1,
+      window: {
+        limit: rule?.maxRequests ?? defaults.window.limit,
+        windowMs: rule?.windowMs ?? defaults.window.windowMs
+      },
+      burst: {
+        limit: rule?.burstCapacity ?? defaults.burst.limit,
+        windowMs: rule?.burstWindowMs ?? defaults.burst.windowMs
+      }
+    };
+  }
+}
@@ -1,145 +1,351 @@
 import { Request, Response, NextFunction } from 'express';
-import { RateLimitInfo } from '../types';
+import {
+  AccessListAction,
+  AccessListEntry,
+  Awaitable,
+  Clock,
+  RateLimitAlgorithmName,
+  RateLimitClientStatus,
+  RateLimitDecision,
+  RateLimitHeaderMode,
+  RateLimitInfo,
+  RateLimitOutcome,
+  RateLimitOutcomeReason,
+  RateLimitQuota,
+  RateLimitStore,
+  RateLimitStrategy,
+  ResolvedRateLimitPolicy
+} from '../types';
+import { MemoryRateLimitStore } from './stores/MemoryRateLimitStore';
+import { createRateLimitStrategy } from './algorithms';
+import { RateLimitPolicyEngine } from './rateLimitPolicy';
+import { ClientIdExtractor, ipExtractor } from './clientIdentity';
+import { systemClock } from '../clock';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('rate-limit');
 
 export class RateLimiter {
-  private readonly clients: Map<string, RateLimitInfo>;
-  private readonly maxRequests: number;
-  private readonly windowMs: number;
-  private readonly burstCapacity: number;
-  private readonly burstWindowMs: number;
+  private readonly store: RateLimitStore;
+  private readonly strategy: RateLimitStrategy;
+  private readonly policies: RateLimitPolicyEngine;
+  private readonly identifyClient: ClientIdExtractor;
+  private readonly headerMode: RateLimitHeaderMode;
+  private defaults: { window: RateLimitQuota; burst: RateLimitQuota };
+  private readonly clock: Clock;
+  private readonly outcomeListeners: Set<(outcome: RateLimitOutcome) => void> = new Set();
 
   constructor(
     maxRequests: number = 10,
     windowMs: number = 60000, // 1 minute
     burstCapacity: number = 5,
-    burstWindowMs: number = 10000 // 10 seconds
+    burstWindowMs: number = 10000, // 10 seconds
+    store: RateLimitStore = new MemoryRateLimitStore(),
+    algorithm: RateLimitAlgorithmName = 'fixed-window',
+    policies: RateLimitPolicyEngine = new RateLimitPolicyEngine(),
+    identifyClient: ClientIdExtractor = ipExtractor(),
+    headerMode: RateLimitHeaderMode = 'legacy',
+    clock: Clock = systemClock // Pass the same clock to the store
   ) {
-    this.clients = new Map();
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
-    this.burstCapacity = burstCapacity;
-    this.burstWindowMs = burstWindowMs;
+    this.store = store;
+    this.strategy = createRateLimitStrategy(algorithm, clock);
+    this.clock = clock;
+    this.policies = policies;
+    this.identifyClient = identifyClient;
+    this.headerMode = headerMode;
+    this.defaults = {
+      window: { limit: maxRequests, windowMs },
+      burst: { limit: burstCapacity, windowMs: burstWindowMs }
+    };
+  }
 
-    // Cleanup expired entries every minute
-    setInterval(() => {
-      this.cleanupExpired();
-    }, 60000);
+  // Change the default quotas (rules with their own limits keep them).
+  // Counters already in the store are kept and judged against the new limits
+  // from the next request on.
+  setLimits(maxRequests: number, windowMs: number, burstCapacity: number, burstWindowMs: number): void {
+    this.defaults = {
+      window: { limit: maxRequests, windowMs },
+      burst: { limit: burstCapacity, windowMs: burstWindowMs }
+    };
   }
 
   middleware() {
-    return (req: Request, res: Response, next: NextFunction): void => {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
       const clientId = this.getClientId(req);
-      const now = Date.now();
-
-      let rateLimitInfo = this.clients.get(clientId);
-
-      if (!rateLimitInfo) {
-        rateLimitInfo = {
-          count: 0,
-          resetTime: now + this.windowMs,
-          burstCount: 0,
-          burstResetTime: now + this.burstWindowMs
-        };
-        this.clients.set(clientId, rateLimitInfo);
+      const policy = this.policies.resolve(req, this.defaults);
+
+      let access: AccessListEntry | null;
+      let decisions: [RateLimitDecision, RateLimitDecision] | null = null;
+      try {
+        access = await this.store.getState<AccessListEntry>(this.accessKey(clientId));
+        if (!access && !policy.exempt) {
+          decisions = await Promise.all([
+            this.strategy.consume(this.store, this.windowKey(policy, clientId), policy.window, policy.cost),
+            this.strategy.consume(this.store, this.burstKey(policy, clientId), policy.burst, policy.cost)
+          ]);
+        }
+      } catch (error) {
+        // Fail open: an unreachable counter store should not take the API down
+        log.error('Rate limit store unavailable, allowing request', { clientId, error });
+        this.report(policy.name, clientId, true, 'store-unavailable');
+        next();
+        return;
+      }
+
+      if (access?.action === 'deny') {
+        this.report(policy.name, clientId, false, 'denylist');
+        res.status(403).json({
+          success: false,
+          error: 'Client is temporarily blocked',
+          retryAfter: Math.ceil((access.expiresAt - this.clock.now()) / 1000),
+          timestamp: this.clock.now()
+        });
+        return;
       }
 
-      // Reset counters if windows have expired
-      if (now >= rateLimitInfo.resetTime) {
-        rateLimitInfo.count = 0;
-        rateLimitInfo.resetTime = now + this.windowMs;
+      if (access?.action === 'allow') {
+        this.report(policy.name, clientId, true, 'allowlist');
+        res.set('X-RateLimit-Policy', 'allowlist');
+        next();
+        return;
       }
 
-      if (now >= rateLimitInfo.burstResetTime) {
-        rateLimitInfo.burstCount = 0;
-        rateLimitInfo.burstResetTime = now + this.burstWindowMs;
+      res.set('X-RateLimit-Policy', policy.name);
+      if (!decisions) {
+        this.report(policy.name, clientId, true, 'exempt');
+        next();
+        return;
       }
 
+      const [window, burst] = decisions;
+
       // Check burst limit first (stricter)
-      if (rateLimitInfo.burstCount >= this.burstCapacity) {
-        const burstRetryAfter = Math.ceil((rateLimitInfo.burstResetTime - now) / 1000);
-        res.status(429).json({
-          success: false,
-          error: `Too many requests. Burst limit of ${this.burstCapacity} requests per ${this.burstWindowMs / 1000} seconds exceeded.`,
-          retryAfter: burstRetryAfter,
-          limit: this.burstCapacity,
-          remaining: 0,
-          resetTime: rateLimitInfo.burstResetTime,
-          timestamp: now
-        });
+      if (!burst.allowed) {
+        if (window.allowed) {
+          await this.release(this.windowKey(policy, clientId), policy.window, policy.cost);
+        }
+        this.setHeaders(res, policy, window.allowed ? this.refunded(window, policy) : window, burst);
+        this.report(policy.name, clientId, false, 'burst');
+        this.reject(res, burst, 'Burst limit', policy.burst, policy);
         return;
       }
 
       // Check regular rate limit
-      if (rateLimitInfo.count >= this.maxRequests) {
-        const retryAfter = Math.ceil((rateLimitInfo.resetTime - now) / 1000);
-        res.status(429).json({
-          success: false,
-          error: `Too many requests. Rate limit of ${this.maxRequests} requests per ${this.windowMs / 1000} seconds exceeded.`,
-          retryAfter: retryAfter,
-          limit: this.maxRequests,
-          remaining: 0,
-          resetTime: rateLimitInfo.resetTime,
-          timestamp: now
-        });
+      if (!window.allowed) {
+        await this.release(this.burstKey(policy, clientId), policy.burst, policy.cost);
+        this.setHeaders(res, policy, window, this.refunded(burst, policy));
+        this.report(policy.name, clientId, false, 'window');
+        this.reject(res, window, 'Rate limit', policy.window, policy);
         return;
       }
 
-      // Increment counters
-      rateLimitInfo.count++;
-      rateLimitInfo.burstCount++;
+      this.report(policy.name, clientId, true, 'within-limit');
+      this.setHeaders(res, policy, window, burst);
+      next();
+    };
+  }
+
+  // Observe every allow/reject decision (e.g. for metrics); returns an unsubscribe function
+  onOutcome(listener: (outcome: RateLimitOutcome) => void): () => void {
+    this.outcomeListeners.add(listener);
+    return () => {
+      this.outcomeListeners.delete(listener);
+    };
+  }
+
+  private report(policy: string, clientId: string, allowed: boolean, reason: RateLimitOutcomeReason): void {
+    const outcome: RateLimitOutcome = { policy, clientId, allowed, reason };
+    this.outcomeListeners.forEach(listener => {
+      try {
+        listener(outcome);
+      } catch (error) {
+        log.error('Rate limit outcome listener failed', { error });
+      }
+    });
+  }
+
+  // Decision as it stands after release() gave the request's cost back
+  private refunded(decision: RateLimitDecision, policy: ResolvedRateLimitPolicy): RateLimitDecision {
+    return { ...decision, remaining: Math.min(decision.limit, decision.remaining + policy.cost) };
+  }
 
-      // Add rate limit headers
+  // All reset values are in seconds: epoch seconds for the legacy headers,
+  // seconds from now for the IETF fields
+  private setHeaders(
+    res: Response,
+    policy: ResolvedRateLimitPolicy,
+    window: RateLimitDecision,
+    burst: RateLimitDecision
+  ): void {
+    if (this.headerMode === 'legacy' || this.headerMode === 'both') {
       res.set({
-        'X-RateLimit-Limit': this.maxRequests.toString(),
-        'X-RateLimit-Remaining': (this.maxRequests - rateLimitInfo.count).toString(),
-        'X-RateLimit-Reset': rateLimitInfo.resetTime.toString(),
-        'X-RateLimit-Burst-Limit': this.burstCapacity.toString(),
-        'X-RateLimit-Burst-Remaining': (this.burstCapacity - rateLimitInfo.burstCount).toString(),
-        'X-RateLimit-Burst-Reset': rateLimitInfo.burstResetTime.toString()
+        'X-RateLimit-Limit': window.limit.toString(),
+        'X-RateLimit-Remaining': window.remaining.toString(),
+        'X-RateLimit-Reset': Math.ceil(window.resetTime / 1000).toString(),
+        'X-RateLimit-Burst-Limit': burst.limit.toString(),
+        'X-RateLimit-Burst-Remaining': burst.remaining.toString(),
+        'X-RateLimit-Burst-Reset': Math.ceil(burst.resetTime / 1000).toString()
       });
+    }
 
-      next();
-    };
+    if (this.headerMode === 'draft' || this.headerMode === 'both') {
+      const now = this.clock.now();
+      const burstName = `${policy.name}-burst`;
+      res.set({
+        'RateLimit-Policy': [
+          `"${policy.name}";q=${policy.window.limit};w=${Math.ceil(policy.window.windowMs / 1000)}`,
+          `"${burstName}";q=${policy.burst.limit};w=${Math.ceil(policy.burst.windowMs / 1000)}`
+        ].join(', '),
+        'RateLimit': [
+          `"${policy.name}";r=${window.remaining};t=${Math.max(0, Math.ceil((window.resetTime - now) / 1000))}`,
+          `"${burstName}";r=${burst.remaining};t=${Math.max(0, Math.ceil((burst.resetTime - now) / 1000))}`
+        ].join(', ')
+      });
+    }
+  }
+
+  private reject(
+    res: Response,
+    decision: RateLimitDecision,
+    label: string,
+    quota: RateLimitQuota,
+    policy: ResolvedRateLimitPolicy
+  ): void {
+    const retryAfter = Math.ceil(decision.retryAfterMs / 1000);
+    res.set('Retry-After', retryAfter.toString());
+    res.status(429).json({
+      success: false,
+      error: `Too many requests. ${label} of ${quota.limit} requests per ${quota.windowMs / 1000} seconds exceeded.`,
+      policy: policy.name,
+      retryAfter,
+      limit: decision.limit,
+      remaining: 0,
+      resetTime: decision.resetTime,
+      timestamp: this.clock.now()
+    });
   }
 
   private getClientId(req: Request): string {
-    // Use IP address as client identifier
-    // In production, we might want to use user ID or API key
-    return req.ip ?? req.socket.remoteAddress ?? 'unknown';
+    // Fall back to the socket address, which a client cannot forge
+    return this.identifyClient(req) ?? `ip:${req.socket.remoteAddress ?? 'unknown'}`;
   }
 
-  private cleanupExpired(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
+  // Keys are namespaced by algorithm so switching algorithms never reads
+  // state written in another algorithm's shape, and by policy so every rule
+  // has its own counters
+  private windowKey(policy: ResolvedRateLimitPolicy, clientId: string): string {
+    return `${this.strategy.name}:${policy.name}:${clientId}:window`;
+  }
 
-    for (const [clientId, info] of this.clients.entries()) {
-      // Remove entries that are past both reset times
-      if (now >= info.resetTime && now >= info.burstResetTime) {
-        keysToDelete.push(clientId);
-      }
-    }
+  private burstKey(policy: ResolvedRateLimitPolicy, clientId: string): string {
+    return `${this.strategy.name}:${policy.name}:${clientId}:burst`;
+  }
 
-    keysToDelete.forEach(key => {
-      this.clients.delete(key);
-    });
+  private accessKey(clientId: string): string {
+    return `acl:${clientId}`;
+  }
 
-    if (keysToDelete.length > 0) {
-      console.log(`Cleaned up ${keysToDelete.length} expired rate limit entries`);
+  // Rejected requests don't consume quota
+  private async release(key: string, quota: RateLimitQuota, cost: number): Promise<void> {
+    try {
+      await this.strategy.release(this.store, key, quota, cost);
+    } catch (error) {
+      log.error('Failed to release rate limit slot', { error });
     }
   }
 
   // Get current rate limit status for a client
-  getStatus(req: Request): RateLimitInfo | null {
+  async getStatus(req: Request): Promise<RateLimitInfo | null> {
     const clientId = this.getClientId(req);
-    return this.clients.get(clientId) || null;
+    const policy = this.policies.resolve(req, this.defaults);
+    const [window, burst] = await Promise.all([
+      this.strategy.inspect(this.store, this.windowKey(policy, clientId), policy.window),
+      this.strategy.inspect(this.store, this.burstKey(policy, clientId), policy.burst)
+    ]);
+
+    if (!window && !burst) {
+      return null;
+    }
+    return { algorithm: this.strategy.name, policy: policy.name, window, burst };
   }
 
   // Reset rate limit for a specific client (for testing)
-  reset(clientId?: string): void {
+  async reset(clientId?: string): Promise<void> {
     if (clientId) {
-      this.clients.delete(clientId);
+      await Promise.all(this.policies.policies(this.defaults).flatMap(policy => [
+        this.strategy.reset(this.store, this.windowKey(policy, clientId), policy.window),
+        this.strategy.reset(this.store, this.burstKey(policy, clientId), policy.burst)
+      ]));
     } else {
-      this.clients.clear();
+      // Counters only; allow/deny entries survive a reset
+      await this.store.resetAll(`${this.strategy.name}:`);
     }
   }
+
+  // Every client holding counters, with usage per policy
+  async listClients(): Promise<RateLimitClientStatus[]> {
+    const prefix = `${this.strategy.name}:`;
+    const policies = this.policies.policies(this.defaults)
+      .sort((a, b) => b.name.length - a.name.length); // Longest name first, in case one prefixes another
+    const clients = new Map<string, { policy: ResolvedRateLimitPolicy; clientId: string }>();
+
+    for (const key of await this.store.keys(prefix)) {
+      const rest = key.slice(prefix.length);
+      const policy = policies.find(candidate => rest.startsWith(`${candidate.name}:`));
+      // Strip the layer suffix and the sliding window counter's window start
+      const match = policy ? /^(.*):(window|burst)(?::\d+)?$/.exec(rest.slice(policy.name.length + 1)) : null;
+      if (policy && match) {
+        clients.set(`${policy.name}\n${match[1]}`, { policy, clientId: match[1]! });
+      }
+    }
+
+    const now = this.clock.now();
+    return Promise.all(Array.from(clients.values()).map(async ({ policy, clientId }) => {
+      const [window, burst] = await Promise.all([
+        this.strategy.inspect(this.store, this.windowKey(policy, clientId), policy.window),
+        this.strategy.inspect(this.store, this.burstKey(policy, clientId), policy.burst)
+      ]);
+      return {
+        clientId,
+        policy: policy.name,
+        window: window ? this.strategy.usage(window, policy.window, now) : null,
+        burst: burst ? this.strategy.usage(burst, policy.burst, now) : null
+      };
+    }));
+  }
+
+  // Temporarily allow (skip limiting) or deny (403) a client on every instance
+  async setAccess(clientId: string, action: AccessListAction, ttlMs: number, reason?: string): Promise<AccessListEntry> {
+    const now = this.clock.now();
+    const entry: AccessListEntry = {
+      clientId,
+      action,
+      ...(reason ? { reason } : {}),
+      createdAt: now,
+      expiresAt: now + ttlMs
+    };
+
+    await this.store.update<AccessListEntry, void>(this.accessKey(clientId), () => ({
+      state: entry,
+      ttlMs,
+      result: undefined
+    }));
+    return entry;
+  }
+
+  async removeAccess(clientId: string): Promise<boolean> {
+    const existing = await this.store.getState<AccessListEntry>(this.accessKey(clientId));
+    await this.store.resetKey(this.accessKey(clientId));
+    return existing !== null;
+  }
+
+  async listAccess(): Promise<AccessListEntry[]> {
+    const keys = await this.store.keys('acl:');
+    const entries = await Promise.all(keys.map(key => this.store.getState<AccessListEntry>(key)));
+    return entries.filter((entry): entry is AccessListEntry => entry !== null);
+  }
+
+  destroy(): Awaitable<void> {
+    return this.store.destroy();
+  }
 }
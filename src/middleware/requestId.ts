@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { runWithLogContext } from '../logging/context';
+
+// Caller-supplied IDs end up in logs, so only plain tokens are taken
+const ACCEPTED_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+// Gives each request an ID: the caller's X-Request-Id when it is a plain
+// token (and acceptIncoming is set), otherwise a new UUID. The ID is echoed
+// in the response and added to every log record written while the request
+// is handled, including by the queue jobs it waits on.
+export function requestId(acceptIncoming: boolean = true) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const incoming = req.get('x-request-id');
+    const id = acceptIncoming && incoming && ACCEPTED_ID.test(incoming) ? incoming : uuidv4();
+
+    res.set('X-Request-Id', id);
+    runWithLogContext({ requestId: id }, next);
+  };
+}
@@ -0,0 +1,124 @@
+import { Clock, RateLimitCounter, RateLimitStateUpdate, RateLimitStore, Timer } from '../../types';
+import { systemClock } from '../../clock';
+import { createLogger } from '../../logging/logger';
+
+const log = createLogger('rate-limit');
+
+interface StoredState {
+  state: unknown;
+  expiresAt: number;
+}
+
+// Per-process counter store. Fine for a single instance; behind a load
+// balancer use RedisRateLimitStore so all instances share the quota.
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly counters: Map<string, RateLimitCounter> = new Map();
+  private readonly states: Map<string, StoredState> = new Map();
+  private readonly clock: Clock;
+  private readonly cleanupInterval: Timer;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+    // Cleanup expired entries every minute
+    this.cleanupInterval = clock.setInterval(() => {
+      this.cleanupExpired();
+    }, 60000);
+  }
+
+  increment(key: string, windowMs: number, amount: number = 1): RateLimitCounter {
+    const now = this.clock.now();
+    let counter = this.counters.get(key);
+
+    if (!counter || now >= counter.resetTime) {
+      counter = { count: 0, resetTime: now + windowMs };
+      this.counters.set(key, counter);
+    }
+
+    counter.count += amount;
+    return { ...counter };
+  }
+
+  decrement(key: string, windowMs: number, amount: number = 1): void {
+    const counter = this.counters.get(key);
+    if (counter && this.clock.now() < counter.resetTime) {
+      counter.count = Math.max(0, counter.count - amount);
+    }
+  }
+
+  get(key: string): RateLimitCounter | null {
+    const counter = this.counters.get(key);
+    if (!counter || this.clock.now() >= counter.resetTime) {
+      return null;
+    }
+    return { ...counter };
+  }
+
+  // Single-threaded, so the read-modify-write is atomic by construction
+  update<S, R>(key: string, updater: (current: S | null, now: number) => RateLimitStateUpdate<S, R>): R {
+    const now = this.clock.now();
+    const { state, ttlMs, result } = updater(this.getState<S>(key), now);
+
+    this.states.set(key, { state, expiresAt: now + ttlMs });
+    return result;
+  }
+
+  getState<S>(key: string): S | null {
+    const stored = this.states.get(key);
+    if (!stored || this.clock.now() >= stored.expiresAt) {
+      return null;
+    }
+    return stored.state as S;
+  }
+
+  keys(prefix: string = ''): string[] {
+    const now = this.clock.now();
+    const live = [
+      ...Array.from(this.counters.entries()).filter(([, counter]) => now < counter.resetTime),
+      ...Array.from(this.states.entries()).filter(([, stored]) => now < stored.expiresAt)
+    ];
+    return live.map(([key]) => key).filter(key => key.startsWith(prefix));
+  }
+
+  resetKey(key: string): void {
+    this.counters.delete(key);
+    this.states.delete(key);
+  }
+
+  resetAll(prefix: string = ''): void {
+    for (const key of [...this.counters.keys(), ...this.states.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.resetKey(key);
+      }
+    }
+  }
+
+  destroy(): void {
+    this.cleanupInterval.cancel();
+  }
+
+  private cleanupExpired(): void {
+    const now = this.clock.now();
+    const keysToDelete: string[] = [];
+
+    for (const [key, counter] of this.counters.entries()) {
+      if (now >= counter.resetTime) {
+        keysToDelete.push(key);
+      }
+    }
+
+    for (const [key, stored] of this.states.entries()) {
+      if (now >= stored.expiresAt) {
+        keysToDelete.push(key);
+      }
+    }
+
+    keysToDelete.forEach(key => {
+      this.counters.delete(key);
+      this.states.delete(key);
+    });
+
+    if (keysToDelete.length > 0) {
+      log.debug('Cleaned up expired rate limit entries', { entries: keysToDelete.length });
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { Clock, RateLimitCounter, RateLimitStateUpdate, RateLimitStore } from '../../types';
+import { systemClock } from '../../clock';
+import { escapeGlob } from '../../cache/glob';
+import { RespClient } from '../../cache/resp/RespClient';
+import { COMPARE_AND_DELETE_SCRIPT } from '../../cache/resp/scripts';
+
+// Shared counter store over the Redis protocol. Each counter is a Redis key
+// whose TTL is the window, so every instance sees the same counts and resets.
+export class RedisRateLimitStore implements RateLimitStore {
+  private readonly client: RespClient;
+  private readonly prefix: string;
+  private readonly lockTimeoutMs: number;
+  private readonly clock: Clock;
+
+  constructor(
+    client: RespClient,
+    prefix: string = 'ratelimit:',
+    lockTimeoutMs: number = 1000,
+    clock: Clock = systemClock
+  ) {
+    this.client = client;
+    this.prefix = prefix;
+    this.lockTimeoutMs = lockTimeoutMs;
+    this.clock = clock;
+  }
+
+  async increment(key: string, windowMs: number, amount: number = 1): Promise<RateLimitCounter> {
+    // SET NX starts the window only when the counter does not exist yet;
+    // MULTI/EXEC keeps create + increment + TTL read atomic
+    const [, count, ttl] = await this.client.transaction([
+      ['SET', this.prefix + key, 0, 'PX', windowMs, 'NX'],
+      ['INCRBY', this.prefix + key, amount],
+      ['PTTL', this.prefix + key]
+    ]);
+
+    return {
+      count: Number(count),
+      resetTime: this.clock.now() + this.remainingMs(ttl, windowMs)
+    };
+  }
+
+  async decrement(key: string, windowMs: number, amount: number = 1): Promise<void> {
+    // Like increment(), SET NX PX gives a counter that expired in the meantime
+    // a TTL instead of leaving it forever. (PEXPIRE NX would do the same, but
+    // needs Redis 7, and older servers abort the whole transaction.)
+    await this.client.transaction([
+      ['SET', this.prefix + key, 0, 'PX', windowMs, 'NX'],
+      ['INCRBY', this.prefix + key, -amount]
+    ]);
+  }
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const [count, ttl] = await this.client.transaction([
+      ['GET', this.prefix + key],
+      ['PTTL', this.prefix + key]
+    ]);
+
+    if (typeof count !== 'string' || typeof ttl !== 'number' || ttl < 0) {
+      return null;
+    }
+    return { count: Number(count), resetTime: this.clock.now() + ttl };
+  }
+
+  // Stateful algorithms need a read-modify-write, which plain RESP commands
+  // can't express atomically. A short-lived per-key lock (SET NX PX) serializes
+  // updates across instances; its TTL bounds the damage if a holder dies.
+  // Waiting for the lock uses real time: it depends on other processes, not
+  // on the clock the counters follow.
+  async update<S, R>(key: string, updater: (current: S | null, now: number) => RateLimitStateUpdate<S, R>): Promise<R> {
+    const lockKey = `${this.prefix}${key}:lock`;
+    const token = randomUUID();
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    while ((await this.client.command('SET', lockKey, token, 'PX', this.lockTimeoutMs, 'NX')) !== 'OK') {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for rate limit lock on ${key}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 2 + Math.random() * 8));
+    }
+
+    try {
+      const current = await this.getState<S>(key);
+      const { state, ttlMs, result } = updater(current, this.clock.now());
+      await this.client.command('SET', this.prefix + key, JSON.stringify(state), 'PX', Math.max(1, Math.ceil(ttlMs)));
+      return result;
+    } finally {
+      // Only release the lock if it is still ours: checked and deleted in one
+      // step, so a lock that expired and was taken by another instance in
+      // between is left alone
+      await this.client.command('EVAL', COMPARE_AND_DELETE_SCRIPT, 1, lockKey, token);
+    }
+  }
+
+  async getState<S>(key: string): Promise<S | null> {
+    const raw = await this.client.command('GET', this.prefix + key);
+    return typeof raw === 'string' ? (JSON.parse(raw) as S) : null;
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await this.client.command('DEL', this.prefix + key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const keys = await this.client.scan(`${escapeGlob(this.prefix + prefix)}*`);
+    return keys
+      .filter(key => !key.endsWith(':lock'))
+      .map(key => key.slice(this.prefix.length));
+  }
+
+  async resetAll(prefix: string = ''): Promise<void> {
+    const keys = await this.client.scan(`${escapeGlob(this.prefix + prefix)}*`);
+    if (keys.length > 0) {
+      await this.client.command('DEL', ...keys);
+    }
+  }
+
+  async destroy(): Promise<void> {
+    await this.client.quit();
+  }
+
+  private remainingMs(ttl: unknown, windowMs: number): number {
+    return typeof ttl === 'number' && ttl >= 0 ? ttl : windowMs;
+  }
+}
@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CreateUserRequest, UpdateUserRequest, User, UserListQuery, UserPage, UserRepository } from '../types';
+import { SEED_USERS, copyUser } from './seedUsers';
+import { queryUsers } from './userQuery';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('repository');
+
+type LogRecord =
+  | { op: 'create'; user: User }
+  | { op: 'update'; id: number; changes: UpdateUserRequest; updatedAt: Date }
+  | { op: 'delete'; id: number };
+
+// Users persisted as an append-only JSON Lines log, replayed into memory on
+// first use. Every write is appended and fsynced before it becomes visible,
+// so a crash loses at most the write in flight; a torn last line left by
+// such a crash is dropped on the next start.
+export class FileUserRepository implements UserRepository {
+  private readonly file: string;
+  private readonly seed: readonly User[];
+  private readonly users: Map<number, User> = new Map();
+  private nextId: number = 1;
+  private handle: fs.FileHandle | null = null;
+  private ready: Promise<void> | null = null;
+  // Writes run one at a time, in call order
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string, seed: readonly User[] = SEED_USERS) {
+    this.file = file;
+    this.seed = seed;
+  }
+
+  async findById(id: number): Promise<User | null> {
+    await this.open();
+    const user = this.users.get(id);
+    return user ? copyUser(user) : null;
+  }
+
+  async findAll(): Promise<User[]> {
+    await this.open();
+    return Array.from(this.users.values()).map(copyUser);
+  }
+
+  async findByIds(ids: number[]): Promise<User[]> {
+    await this.open();
+    return ids.flatMap(id => {
+      const user = this.users.get(id);
+      return user ? [copyUser(user)] : [];
+    });
+  }
+
+  async list(query: UserListQuery): Promise<UserPage> {
+    await this.open();
+    return queryUsers(this.users.values(), query);
+  }
+
+  async create(input: CreateUserRequest): Promise<User> {
+    await this.open();
+    return this.exclusive(async () => {
+      const user: User = { id: this.nextId, name: input.name, email: input.email, createdAt: new Date() };
+      await this.append([{ op: 'create', user }]);
+      this.apply({ op: 'create', user });
+      return copyUser(user);
+    });
+  }
+
+  async update(id: number, changes: UpdateUserRequest): Promise<User | null> {
+    await this.open();
+    return this.exclusive(async () => {
+      if (!this.users.has(id)) return null;
+      const record: LogRecord = { op: 'update', id, changes, updatedAt: new Date() };
+      await this.append([record]);
+      this.apply(record);
+      return copyUser(this.users.get(id)!);
+    });
+  }
+
+  async delete(id: number): Promise<boolean> {
+    await this.open();
+    return this.exclusive(async () => {
+      if (!this.users.has(id)) return false;
+      const record: LogRecord = { op: 'delete', id };
+      await this.append([record]);
+      this.apply(record);
+      return true;
+    });
+  }
+
+  async reset(): Promise<void> {
+    await this.open();
+    await this.exclusive(async () => {
+      await this.handle!.truncate(0);
+      this.users.clear();
+      this.nextId = 1;
+      await this.writeSeed();
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.ready) return;
+    await this.ready.catch(() => undefined);
+    await this.writes.catch(() => undefined);
+    await this.handle?.close();
+    this.handle = null;
+    this.ready = null;
+  }
+
+  private open(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.load();
+    }
+    return this.ready;
+  }
+
+  private async load(): Promise<void> {
+    let contents = '';
+    try {
+      contents = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    this.handle = await fs.open(this.file, 'a');
+
+    if (contents === '') {
+      await this.writeSeed();
+      return;
+    }
+
+    const lines = contents.split('\n');
+    let offset = 0;
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index]!;
+      const isLast = index === lines.length - 1;
+
+      if (line.trim() !== '') {
+        try {
+          this.apply(JSON.parse(line) as LogRecord);
+        } catch (error) {
+          // Only an unterminated last line can be a torn write
+          if (!isLast) {
+            throw new Error(`Corrupt user log ${this.file} at line ${index + 1}: ${(error as Error).message}`);
+          }
+          log.warn('Dropping incomplete last record', { file: this.file });
+          await this.handle.truncate(offset);
+          break;
+        }
+      }
+      offset += Buffer.byteLength(line, 'utf8') + 1;
+    }
+  }
+
+  private async writeSeed(): Promise<void> {
+    const records: LogRecord[] = this.seed.map(user => ({ op: 'create', user: copyUser(user) }));
+    await this.append(records);
+    records.forEach(record => this.apply(record));
+  }
+
+  private async append(records: LogRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await this.handle!.write(records.map(record => JSON.stringify(record) + '\n').join(''));
+    await this.handle!.datasync();
+  }
+
+  private apply(record: LogRecord): void {
+    switch (record.op) {
+      case 'create': {
+        const user: User = {
+          ...record.user,
+          ...(record.user.createdAt ? { createdAt: new Date(record.user.createdAt) } : {})
+        };
+        this.users.set(user.id, user);
+        this.nextId = Math.max(this.nextId, user.id + 1);
+        break;
+      }
+      case 'update': {
+        const user = this.users.get(record.id);
+        if (!user) throw new Error(`Update of unknown user ${record.id}`);
+        this.users.set(record.id, { ...user, ...record.changes, updatedAt: new Date(record.updatedAt) });
+        break;
+      }
+      case 'delete':
+        // nextId is left alone, so a deleted user's id is never handed out again
+        if (!this.users.delete(record.id)) throw new Error(`Delete of unknown user ${record.id}`);
+        break;
+      default:
+        throw new Error(`Unknown user log operation: ${(record as { op: string }).op}`);
+    }
+  }
+
+  private exclusive<R>(task: () => Promise<R>): Promise<R> {
+    const run = this.writes.then(task);
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+}
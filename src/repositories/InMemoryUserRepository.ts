@@ -0,0 +1,67 @@
+import { CreateUserRequest, UpdateUserRequest, User, UserListQuery, UserPage, UserRepository } from '../types';
+import { SEED_USERS, copyUser } from './seedUsers';
+import { queryUsers } from './userQuery';
+
+// Users kept in a Map; lost on restart. The default, and the one tests use.
+export class InMemoryUserRepository implements UserRepository {
+  private readonly users: Map<number, User> = new Map();
+  private readonly seed: readonly User[];
+  private nextId: number = 1;
+
+  constructor(seed: readonly User[] = SEED_USERS) {
+    this.seed = seed;
+    this.load(seed);
+  }
+
+  async findById(id: number): Promise<User | null> {
+    const user = this.users.get(id);
+    return user ? copyUser(user) : null;
+  }
+
+  async findAll(): Promise<User[]> {
+    return Array.from(this.users.values()).map(copyUser);
+  }
+
+  async findByIds(ids: number[]): Promise<User[]> {
+    return ids.flatMap(id => {
+      const user = this.users.get(id);
+      return user ? [copyUser(user)] : [];
+    });
+  }
+
+  async list(query: UserListQuery): Promise<UserPage> {
+    return queryUsers(this.users.values(), query);
+  }
+
+  async create(input: CreateUserRequest): Promise<User> {
+    const user: User = { id: this.nextId++, name: input.name, email: input.email, createdAt: new Date() };
+    this.users.set(user.id, user);
+    return copyUser(user);
+  }
+
+  async update(id: number, changes: UpdateUserRequest): Promise<User | null> {
+    const user = this.users.get(id);
+    if (!user) return null;
+    const updated: User = { ...user, ...changes, updatedAt: new Date() };
+    this.users.set(id, updated);
+    return copyUser(updated);
+  }
+
+  async delete(id: number): Promise<boolean> {
+    return this.users.delete(id);
+  }
+
+  async reset(): Promise<void> {
+    this.load(this.seed);
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+
+  private load(users: readonly User[]): void {
+    this.users.clear();
+    users.forEach(user => this.users.set(user.id, copyUser(user)));
+    this.nextId = Math.max(0, ...users.map(user => user.id)) + 1;
+  }
+}
@@ -0,0 +1,16 @@
+import { User } from '../types';
+
+// Users every fresh repository starts with
+export const SEED_USERS: readonly User[] = [
+  { id: 1, name: "John Doe", email: "john@example.com", createdAt: new Date('2023-01-01') },
+  { id: 2, name: "Jane Smith", email: "jane@example.com", createdAt: new Date('2023-01-02') },
+  { id: 3, name: "Alice Johnson", email: "alice@example.com", createdAt: new Date('2023-01-03') }
+];
+
+export function copyUser(user: User): User {
+  return {
+    ...user,
+    ...(user.createdAt ? { createdAt: new Date(user.createdAt) } : {}),
+    ...(user.updatedAt ? { updatedAt: new Date(user.updatedAt) } : {})
+  };
+}
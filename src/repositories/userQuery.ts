@@ -0,0 +1,83 @@
+import { User, UserCursor, UserListQuery, UserPage, UserSortField } from '../types';
+import { copyUser } from './seedUsers';
+
+export const USER_SORT_FIELDS: readonly UserSortField[] = ['id', 'name', 'email', 'createdAt'];
+
+function sortValue(user: User, field: UserSortField): string | number {
+  switch (field) {
+    case 'id':
+      return user.id;
+    case 'name':
+      return user.name.toLowerCase();
+    case 'email':
+      return user.email.toLowerCase();
+    case 'createdAt':
+      return user.createdAt ? new Date(user.createdAt).getTime() : 0;
+  }
+}
+
+function compareValues(a: string | number, b: string | number): number {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+// Orders by the sort field, then by id, so every user has a unique position
+function compareUsers(a: User, b: User, field: UserSortField): number {
+  return compareValues(sortValue(a, field), sortValue(b, field)) || a.id - b.id;
+}
+
+function matches(user: User, query: UserListQuery): boolean {
+  if (query.name !== undefined && !user.name.toLowerCase().includes(query.name.toLowerCase())) {
+    return false;
+  }
+  if (query.email !== undefined && !user.email.toLowerCase().includes(query.email.toLowerCase())) {
+    return false;
+  }
+  return true;
+}
+
+function isAfter(user: User, cursor: UserCursor): boolean {
+  const comparison = compareValues(sortValue(user, cursor.sort), cursor.value) || user.id - cursor.id;
+  return cursor.order === 'asc' ? comparison > 0 : comparison < 0;
+}
+
+// Filter, sort and page a full set of users; used by repositories that keep
+// every user in memory
+export function queryUsers(users: Iterable<User>, query: UserListQuery): UserPage {
+  const direction = query.order === 'asc' ? 1 : -1;
+  const selected = Array.from(users)
+    .filter(user => matches(user, query) && (!query.after || isAfter(user, query.after)))
+    .sort((a, b) => direction * compareUsers(a, b, query.sort));
+
+  const page = selected.slice(0, query.limit);
+  const last = page[page.length - 1];
+  return {
+    users: page.map(copyUser),
+    nextCursor: last && selected.length > query.limit ? encodeUserCursor(query, last) : null
+  };
+}
+
+export function encodeUserCursor(query: Pick<UserListQuery, 'sort' | 'order'>, user: User): string {
+  const cursor: UserCursor = { sort: query.sort, order: query.order, value: sortValue(user, query.sort), id: user.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// null for anything that isn't a cursor this module produced
+export function decodeUserCursor(encoded: string): UserCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as Partial<UserCursor>;
+    if (
+      !cursor || typeof cursor !== 'object' ||
+      !USER_SORT_FIELDS.includes(cursor.sort as UserSortField) ||
+      (cursor.order !== 'asc' && cursor.order !== 'desc') ||
+      (typeof cursor.value !== 'string' && typeof cursor.value !== 'number') ||
+      !Number.isInteger(cursor.id)
+    ) {
+      return null;
+    }
+    return cursor as UserCursor;
+  } catch {
+    return null;
+  }
+}
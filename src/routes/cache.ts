@@ -1,17 +1,19 @@
 import { Router, Request, Response } from 'express';
-import { LRUCache } from '../cache/LRUCache';
 import { DatabaseService } from '../services/DatabaseService';
-import { User, ApiResponse } from '../types';
+import { User, ApiResponse, CacheEvent, CacheStore } from '../types';
+import { createLogger } from '../logging/logger';
 
-export function createCacheRouter(userCache: LRUCache<User>, dbService: DatabaseService): Router {
+const log = createLogger('http');
+
+export function createCacheRouter(userCache: CacheStore<User>, dbService: DatabaseService): Router {
   const router = Router();
 
   // DELETE /cache - Clear the entire cache
-  router.delete('/', (req: Request, res: Response) => {
+  router.delete('/', async (req: Request, res: Response): Promise<void> => {
     const startTime = Date.now();
     
     try {
-      userCache.clear();
+      await userCache.clear();
       
       const response: ApiResponse = {
         success: true,
@@ -21,7 +23,7 @@ export function createCacheRouter(userCache: LRUCache<User>, dbService: Database
       };
       res.json(response);
     } catch (error) {
-      console.error('Error in DELETE /cache:', error);
+      log.error('Request failed', { route: 'DELETE /cache', error });
       const response: ApiResponse = {
         success: false,
         error: 'Failed to clear cache',
@@ -32,12 +34,181 @@ export function createCacheRouter(userCache: LRUCache<User>, dbService: Database
     }
   });
 
+  // GET /cache/events - Stream cache activity as Server-Sent Events (?prefix=user: to filter by key)
+  router.get('/events', (req: Request, res: Response): void => {
+    const prefix = typeof req.query.prefix === 'string' ? req.query.prefix : '';
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+    });
+    res.write(': connected\n\n');
+
+    // clear has no key and always passes the filter
+    const unsubscribe = userCache.subscribe((event: CacheEvent) => {
+      if (prefix && 'key' in event && !event.key.startsWith(prefix)) {
+        return;
+      }
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    // Comment lines keep proxies from closing an idle stream
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, 15000);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // GET /cache/keys - Page through cache keys, optionally filtered by a glob (?pattern=user:1*)
+  router.get('/keys', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const pattern = typeof req.query.pattern === 'string' && req.query.pattern !== '' ? req.query.pattern : '*';
+      const cursor = req.query.cursor === undefined ? 0 : Number(req.query.cursor);
+      const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+
+      if (!Number.isInteger(cursor) || cursor < 0 || !Number.isInteger(limit) || limit < 1 || limit > 1000) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'cursor must be a non-negative integer and limit an integer from 1 to 1000',
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      // Sorted so a cursor means the same position between requests. The
+      // cursor is an offset into that list, so every page lists and sorts
+      // every matching key (a full SCAN with REDIS_URL): O(n log n) per page,
+      // and keys added or removed between pages shift it. Fine for inspecting
+      // a cache of this size, not for walking millions of keys.
+      const keys = (await userCache.keys(pattern)).sort();
+      const page = keys.slice(cursor, cursor + limit);
+      const nextCursor = cursor + limit < keys.length ? String(cursor + limit) : null;
+
+      const response: ApiResponse = {
+        success: true,
+        data: { keys: page, nextCursor, total: keys.length },
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'GET /cache/keys', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to list cache keys',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // DELETE /cache/tags/:tag - Invalidate every entry set with a tag
+  router.delete('/tags/:tag', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const deleted = await userCache.deleteByTag(req.params.tag!);
+      
+      const response: ApiResponse = {
+        success: true,
+        data: { deleted },
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'DELETE /cache/tags/:tag', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to invalidate cache entries',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // DELETE /cache/patterns/:pattern - Invalidate every key matching a glob (URL-encoded, e.g. user%3A1*)
+  router.delete('/patterns/:pattern', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const deleted = await userCache.deleteByPattern(req.params.pattern!);
+      
+      const response: ApiResponse = {
+        success: true,
+        data: { deleted },
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'DELETE /cache/patterns/:pattern', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to invalidate cache entries',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // DELETE /cache/keys/:key - Invalidate a single entry. Under /keys so keys
+  // named "tags" or "patterns" don't collide with the routes above.
+  router.delete('/keys/:key', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const deleted = await userCache.delete(req.params.key!);
+      
+      if (!deleted) {
+        const response: ApiResponse = {
+          success: false,
+          error: `No cache entry for ${req.params.key}`,
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: { deleted: 1 },
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'DELETE /cache/keys/:key', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to invalidate cache entry',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
   // GET /cache-status - Get cache statistics
-  router.get('/status', (req: Request, res: Response) => {
+  router.get('/status', async (req: Request, res: Response): Promise<void> => {
     const startTime = Date.now();
     
     try {
-      const cacheStats = userCache.getStats();
+      const cacheStats = await userCache.getStats();
       const queueStats = dbService.getQueueStats();
       
       const response: ApiResponse = {
@@ -45,6 +216,7 @@ export function createCacheRouter(userCache: LRUCache<User>, dbService: Database
         data: {
           cache: cacheStats,
           queue: queueStats,
+          circuitBreaker: dbService.getCircuitBreakerStatus(),
           uptime: process.uptime(),
           memoryUsage: process.memoryUsage()
         },
@@ -53,7 +225,7 @@ export function createCacheRouter(userCache: LRUCache<User>, dbService: Database
       };
       res.json(response);
     } catch (error) {
-      console.error('Error in GET /cache/status:', error);
+      log.error('Request failed', { route: 'GET /cache/status', error });
       const response: ApiResponse = {
         success: false,
         error: 'Failed to get cache status',
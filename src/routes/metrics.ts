@@ -0,0 +1,23 @@
+import { Router, Request, Response } from 'express';
+import { MetricsRegistry } from '../metrics/registry';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('http');
+
+export function createMetricsRouter(registry: MetricsRegistry): Router {
+  const router = Router();
+
+  // GET /metrics - Prometheus/OpenMetrics scrape endpoint
+  router.get('/', async (req: Request, res: Response): Promise<void> => {
+    try {
+      const body = await registry.render();
+      res.set('Content-Type', MetricsRegistry.CONTENT_TYPE);
+      res.send(body);
+    } catch (error) {
+      log.error('Request failed', { route: 'GET /metrics', error });
+      res.status(500).type('text/plain').send('Failed to collect metrics\n');
+    }
+  });
+
+  return router;
+}
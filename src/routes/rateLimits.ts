@@ -0,0 +1,190 @@
+import { Router, Request, Response } from 'express';
+import { RateLimiter } from '../middleware/rateLimiter';
+import { AccessListAction, ApiResponse } from '../types';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('http');
+
+export function createRateLimitsRouter(rateLimiter: RateLimiter): Router {
+  const router = Router();
+
+  // GET /admin/rate-limits - List clients with active counters and access list entries
+  router.get('/', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+
+    try {
+      const [clients, access] = await Promise.all([
+        rateLimiter.listClients(),
+        rateLimiter.listAccess()
+      ]);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { clients, access },
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'GET /admin/rate-limits', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to list rate limits',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // DELETE /admin/rate-limits - Reset counters for all clients
+  router.delete('/', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+
+    try {
+      await rateLimiter.reset();
+
+      const response: ApiResponse = {
+        success: true,
+        data: { message: 'Rate limits reset for all clients' },
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'DELETE /admin/rate-limits', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to reset rate limits',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // DELETE /admin/rate-limits/clients/:clientId - Reset counters for one client
+  router.delete('/clients/:clientId', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+
+    try {
+      const clientId = req.params.clientId!;
+      await rateLimiter.reset(clientId);
+
+      const response: ApiResponse = {
+        success: true,
+        data: { message: `Rate limits reset for ${clientId}` },
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'DELETE /admin/rate-limits/clients/:clientId', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to reset rate limits',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // PUT /admin/rate-limits/access/:clientId - Temporarily allow or deny a client
+  router.put('/access/:clientId', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+
+    try {
+      const { action, ttlSeconds, reason } = req.body as {
+        action?: AccessListAction;
+        ttlSeconds?: number;
+        reason?: string;
+      };
+
+      if (action !== 'allow' && action !== 'deny') {
+        const response: ApiResponse = {
+          success: false,
+          error: "Action must be 'allow' or 'deny'",
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      if (typeof ttlSeconds !== 'number' || !Number.isFinite(ttlSeconds) || ttlSeconds <= 0) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'ttlSeconds must be a positive number',
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const entry = await rateLimiter.setAccess(
+        req.params.clientId!,
+        action,
+        ttlSeconds * 1000,
+        typeof reason === 'string' ? reason : undefined
+      );
+
+      const response: ApiResponse = {
+        success: true,
+        data: entry,
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'PUT /admin/rate-limits/access/:clientId', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to update access list',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // DELETE /admin/rate-limits/access/:clientId - Remove an allow/deny entry
+  router.delete('/access/:clientId', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+
+    try {
+      const removed = await rateLimiter.removeAccess(req.params.clientId!);
+
+      if (!removed) {
+        const response: ApiResponse = {
+          success: false,
+          error: `No access list entry for ${req.params.clientId}`,
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      const response: ApiResponse = {
+        success: true,
+        data: { message: `Access list entry removed for ${req.params.clientId}` },
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      log.error('Request failed', { route: 'DELETE /admin/rate-limits/access/:clientId', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Failed to update access list',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  return router;
+}
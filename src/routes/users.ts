@@ -1,22 +1,250 @@
 import { Router, Request, Response } from 'express';
-import { LRUCache } from '../cache/LRUCache';
 import { DatabaseService } from '../services/DatabaseService';
-import { User, ApiResponse, CreateUserRequest } from '../types';
+import { StaleWhileRevalidate, LoadContext } from '../cache/StaleWhileRevalidate';
+import { NotFoundError, TimeoutError, UnavailableError } from '../services/errors';
+import { decodeUserCursor, USER_SORT_FIELDS } from '../repositories/userQuery';
+import { entityTag } from '../middleware/cacheMiddleware';
+import {
+  User,
+  ApiResponse,
+  CacheSetOptions,
+  CacheStore,
+  CreateUserRequest,
+  UpdateUserRequest,
+  UserBatchResult,
+  UserListQuery,
+  UserRequestOptions,
+  UserSortField
+} from '../types';
+import { createLogger } from '../logging/logger';
 
-export function createUsersRouter(userCache: LRUCache<User>, dbService: DatabaseService): Router {
+const log = createLogger('http');
+
+// Basic email validation
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function parseUserId(raw: string | undefined): number | null {
+  const userId = parseInt(raw!);
+  return isNaN(userId) || userId <= 0 ? null : userId;
+}
+
+const MAX_BATCH_IDS = 100;
+
+// Validators from the user itself rather than the response (which carries
+// timestamps), so a client holding an unchanged user gets a 304. no-cache
+// makes clients revalidate, since writes change users at any time.
+function setUserValidators(res: Response, user: User): void {
+  res.set({ ETag: entityTag(JSON.stringify(user)), 'Cache-Control': 'no-cache' });
+  const modified = user.updatedAt ?? user.createdAt;
+  if (modified) {
+    res.set('Last-Modified', new Date(modified).toUTCString());
+  }
+}
+
+// HTTP status for an error from DatabaseService; null for unexpected errors
+function errorStatus(error: unknown): number | null {
+  if (error instanceof NotFoundError) return 404;
+  if (error instanceof UnavailableError) return 503;
+  if (error instanceof TimeoutError) return 504;
+  return null;
+}
+
+// Unavailable errors that know when the database may recover tell the client
+function setRetryAfter(res: Response, error: unknown): void {
+  if (error instanceof UnavailableError && error.retryAfterMs !== null) {
+    res.set('Retry-After', String(Math.max(1, Math.ceil(error.retryAfterMs / 1000))));
+  }
+}
+
+// Known service errors keep their message and status; anything else is
+// logged and hidden behind a 500
+function sendError(res: Response, error: unknown, startTime: number, route: string): void {
+  const status = errorStatus(error);
+  if (status === null) {
+    log.error('Request failed', { route, error });
+  }
+  setRetryAfter(res, error);
+  const response: ApiResponse = {
+    success: false,
+    error: status !== null && error instanceof Error ? error.message : 'Internal server error',
+    timestamp: Date.now(),
+    responseTime: Date.now() - startTime
+  };
+  res.status(status ?? 500).json(response);
+}
+
+// "1,2,3" (query string) or [1, 2, 3] (JSON body); duplicates are dropped.
+// Returns an error message when invalid.
+function parseUserIds(raw: unknown): number[] | string {
+  const values = typeof raw === 'string' ? raw.split(',').map(value => value.trim()) : raw;
+  if (!Array.isArray(values) || values.length === 0) {
+    return 'ids must be a non-empty list of user IDs';
+  }
+
+  const userIds = values.map(value => typeof value === 'number' || typeof value === 'string' ? Number(value) : NaN);
+  if (userIds.some(userId => !Number.isInteger(userId) || userId <= 0)) {
+    return 'Invalid user ID. Must be a positive integer.';
+  }
+
+  const unique = Array.from(new Set(userIds));
+  if (unique.length > MAX_BATCH_IDS) {
+    return `At most ${MAX_BATCH_IDS} user IDs per request`;
+  }
+  return unique;
+}
+
+// Aborted when the client goes away before the response is sent, so queued
+// reads nobody will receive can be dropped
+function abortOnDisconnect(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+  return controller.signal;
+}
+
+// Background refreshes go to the low priority lane and outlive the request
+// that triggered them
+function queueOptions(context: LoadContext, signal: AbortSignal): UserRequestOptions {
+  return context.background ? { priority: 'background' } : { signal };
+}
+
+// ?name=&email=&sort=[-]field&limit=&cursor=; returns an error message when invalid
+function parseListQuery(query: Request['query']): UserListQuery | string {
+  const text = (value: unknown): string | undefined =>
+    typeof value === 'string' && value !== '' ? value : undefined;
+
+  const sortParam = text(query.sort) ?? 'id';
+  const order = sortParam.startsWith('-') ? 'desc' : 'asc';
+  const sort = sortParam.replace(/^-/, '') as UserSortField;
+  if (!USER_SORT_FIELDS.includes(sort)) {
+    return `sort must be one of ${USER_SORT_FIELDS.join(', ')}, optionally prefixed with - for descending order`;
+  }
+
+  const limit = query.limit === undefined ? 20 : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    return 'limit must be an integer from 1 to 100';
+  }
+
+  const listQuery: UserListQuery = { sort, order, limit };
+  const name = text(query.name);
+  const email = text(query.email);
+  if (name !== undefined) listQuery.name = name;
+  if (email !== undefined) listQuery.email = email;
+
+  const cursorParam = text(query.cursor);
+  if (cursorParam !== undefined) {
+    const after = decodeUserCursor(cursorParam);
+    // A cursor only means something for the ordering it was issued with
+    if (!after || after.sort !== sort || after.order !== order) {
+      return 'Invalid cursor for this sort order';
+    }
+    listQuery.after = after;
+  }
+  return listQuery;
+}
+
+// PUT needs both fields, PATCH at least one; returns an error message when invalid
+function parseUserChanges(body: unknown, requireAll: boolean): UpdateUserRequest | string {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'Request body must be a JSON object';
+  }
+
+  const { name, email, ...rest } = body as Record<string, unknown>;
+  if (Object.keys(rest).length > 0) {
+    return 'Only name and email can be changed';
+  }
+  if (requireAll ? (!name || !email) : (name === undefined && email === undefined)) {
+    return requireAll ? 'Name and email are required' : 'Name or email is required';
+  }
+  if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+    return 'Name must be a non-empty string';
+  }
+  if (email !== undefined && (typeof email !== 'string' || !EMAIL_REGEX.test(email))) {
+    return 'Invalid email format';
+  }
+
+  const changes: UpdateUserRequest = {};
+  if (name !== undefined) changes.name = name;
+  if (email !== undefined) changes.email = email;
+  return changes;
+}
+
+// ttlJitter: fraction TTLs vary by, so users created in a burst don't all
+// expire at once
+export function createUsersRouter(userCache: CacheStore<User>, dbService: DatabaseService, ttlJitter: number = 0.1): Router {
   const router = Router();
+  // Tagged so DELETE /cache/tags/users drops every cached user
+  const cacheOptions: CacheSetOptions = { jitter: ttlJitter, tags: ['users'] };
+  // Writes go through the loader too, so an in-flight load can't cache the
+  // value a write just replaced
+  const userLoader = new StaleWhileRevalidate(userCache, cacheOptions);
 
-  // GET /users/:id - Retrieve user data by ID
-  router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  // Cached users are served from the cache; the rest are read by a single
+  // queued database job
+  // Each failed ID carries the status it would get on its own; the response
+  // gets a Retry-After when any ID failed with an Unavailable error
+  const lookupUsers = async (userIds: number[], res: Response): Promise<UserBatchResult[]> => {
+    const signal = abortOnDisconnect(res);
+    const idsByKey = new Map(userIds.map(userId => [`user:${userId}`, userId]));
+    const results = await userLoader.getMany(Array.from(idsByKey.keys()), (missing, context) =>
+      dbService.getUsersByIds(missing.map(key => idsByKey.get(key)!), queueOptions(context, signal))
+    );
+
+    const retryAfterMs = Math.max(0, ...results.map(result =>
+      result instanceof UnavailableError ? result.retryAfterMs ?? 0 : 0));
+    if (retryAfterMs > 0) {
+      res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    }
+
+    return results.map((result, index): UserBatchResult => result instanceof Error
+      ? { id: userIds[index]!, success: false, error: result.message, status: errorStatus(result) ?? 500 }
+      : { id: userIds[index]!, success: true, data: result.value, cached: result.cached, stale: result.stale });
+  };
+
+  const batchResponse = (results: UserBatchResult[], startTime: number): ApiResponse => ({
+    success: true,
+    data: {
+      results,
+      found: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length
+    },
+    timestamp: Date.now(),
+    responseTime: Date.now() - startTime
+  });
+
+  // GET /users - List users (?name=&email= filters, ?sort=-createdAt, cursor pagination),
+  // or look up several by ID (?ids=1,2,3)
+  router.get('/', async (req: Request, res: Response): Promise<void> => {
     const startTime = Date.now();
     
     try {
-      const userId = parseInt(req.params.id!);
+      if (req.query.ids !== undefined) {
+        const userIds = parseUserIds(req.query.ids);
+        
+        if (typeof userIds === 'string') {
+          const response: ApiResponse = {
+            success: false,
+            error: userIds,
+            timestamp: Date.now(),
+            responseTime: Date.now() - startTime
+          };
+          res.status(400).json(response);
+          return;
+        }
+
+        res.json(batchResponse(await lookupUsers(userIds, res), startTime));
+        return;
+      }
+
+      const query = parseListQuery(req.query);
       
-      if (isNaN(userId) || userId <= 0) {
+      if (typeof query === 'string') {
         const response: ApiResponse = {
           success: false,
-          error: 'Invalid user ID. Must be a positive integer.',
+          error: query,
           timestamp: Date.now(),
           responseTime: Date.now() - startTime
         };
@@ -24,48 +252,96 @@ export function createUsersRouter(userCache: LRUCache<User>, dbService: Database
         return;
       }
 
-      const cacheKey = `user:${userId}`;
+      // Lists read the database directly; only single users are cached
+      const page = await dbService.listUsers(query);
       
-      // Try to get from cache first
-      const cachedUser = userCache.get(cacheKey);
-      if (cachedUser) {
-        const response: ApiResponse<User> = {
-          success: true,
-          data: cachedUser,
+      const response: ApiResponse = {
+        success: true,
+        data: page,
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      sendError(res, error, startTime, 'GET /users');
+    }
+  });
+
+  // GET /users/:id - Retrieve user data by ID
+  router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const userId = parseUserId(req.params.id);
+      
+      if (userId === null) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid user ID. Must be a positive integer.',
           timestamp: Date.now(),
-          cached: true,
           responseTime: Date.now() - startTime
         };
-        res.json(response);
+        res.status(400).json(response);
         return;
       }
 
-      // If not in cache, fetch from database
+      const cacheKey = `user:${userId}`;
+      
+      // Serve from cache (possibly stale, refreshed in the background),
+      // falling back to the database on a miss
       try {
-        const user = await dbService.getUserById(userId);
-        
-        // Cache the result
-        userCache.set(cacheKey, user);
+        const signal = abortOnDisconnect(res);
+        const result = await userLoader.get(cacheKey, context =>
+          dbService.getUserById(userId, queueOptions(context, signal))
+        );
         
         const response: ApiResponse<User> = {
           success: true,
-          data: user,
+          data: result.value,
           timestamp: Date.now(),
-          cached: false,
+          cached: result.cached,
+          stale: result.stale,
           responseTime: Date.now() - startTime
         };
+        // res.json() answers a matching If-None-Match/If-Modified-Since with a 304
+        setUserValidators(res, result.value);
         res.json(response);
       } catch (error) {
+        sendError(res, error, startTime, 'GET /users/:id');
+      }
+    } catch (error) {
+      log.error('Request failed', { route: 'GET /users/:id', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // POST /users/batch - Look up several users by ID ({"ids": [1, 2, 3]})
+  router.post('/batch', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const userIds = parseUserIds(req.body?.ids);
+      
+      if (typeof userIds === 'string') {
         const response: ApiResponse = {
           success: false,
-          error: error instanceof Error ? error.message : 'User not found',
+          error: userIds,
           timestamp: Date.now(),
           responseTime: Date.now() - startTime
         };
-        res.status(404).json(response);
+        res.status(400).json(response);
+        return;
       }
+
+      res.json(batchResponse(await lookupUsers(userIds, res), startTime));
     } catch (error) {
-      console.error('Error in GET /users/:id:', error);
+      log.error('Request failed', { route: 'POST /users/batch', error });
       const response: ApiResponse = {
         success: false,
         error: 'Internal server error',
@@ -94,9 +370,7 @@ export function createUsersRouter(userCache: LRUCache<User>, dbService: Database
         return;
       }
 
-      // Basic email validation
-      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-      if (!emailRegex.test(email)) {
+      if (!EMAIL_REGEX.test(email)) {
         const response: ApiResponse = {
           success: false,
           error: 'Invalid email format',
@@ -112,7 +386,7 @@ export function createUsersRouter(userCache: LRUCache<User>, dbService: Database
         
         // Cache the new user
         const cacheKey = `user:${newUser.id}`;
-        userCache.set(cacheKey, newUser);
+        await userLoader.set(cacheKey, newUser);
         
         const response: ApiResponse<User> = {
           success: true,
@@ -122,23 +396,180 @@ export function createUsersRouter(userCache: LRUCache<User>, dbService: Database
         };
         res.status(201).json(response);
       } catch (error) {
+        sendError(res, error, startTime, 'POST /users');
+      }
+    } catch (error) {
+      log.error('Request failed', { route: 'POST /users', error });
+      const response: ApiResponse = {
+        success: false,
+        error: 'Internal server error',
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.status(500).json(response);
+    }
+  });
+
+  // PUT /users/:id - Replace a user (name and email required)
+  router.put('/:id', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const userId = parseUserId(req.params.id);
+      
+      if (userId === null) {
         const response: ApiResponse = {
           success: false,
-          error: error instanceof Error ? error.message : 'Failed to create user',
+          error: 'Invalid user ID. Must be a positive integer.',
           timestamp: Date.now(),
           responseTime: Date.now() - startTime
         };
-        res.status(500).json(response);
+        res.status(400).json(response);
+        return;
       }
+
+      const changes = parseUserChanges(req.body, true);
+      
+      if (typeof changes === 'string') {
+        const response: ApiResponse = {
+          success: false,
+          error: changes,
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const updatedUser = await dbService.updateUser(userId, changes);
+      
+      if (!updatedUser) {
+        const response: ApiResponse = {
+          success: false,
+          error: `User with ID ${userId} not found`,
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      // Write-through, so the next read sees the change
+      await userLoader.set(`user:${userId}`, updatedUser);
+      
+      const response: ApiResponse<User> = {
+        success: true,
+        data: updatedUser,
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
     } catch (error) {
-      console.error('Error in POST /users:', error);
+      sendError(res, error, startTime, 'PUT /users/:id');
+    }
+  });
+
+  // PATCH /users/:id - Change some of a user's fields
+  router.patch('/:id', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const userId = parseUserId(req.params.id);
+      
+      if (userId === null) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid user ID. Must be a positive integer.',
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const changes = parseUserChanges(req.body, false);
+      
+      if (typeof changes === 'string') {
+        const response: ApiResponse = {
+          success: false,
+          error: changes,
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const updatedUser = await dbService.updateUser(userId, changes);
+      
+      if (!updatedUser) {
+        const response: ApiResponse = {
+          success: false,
+          error: `User with ID ${userId} not found`,
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      // Write-through, so the next read sees the change
+      await userLoader.set(`user:${userId}`, updatedUser);
+      
+      const response: ApiResponse<User> = {
+        success: true,
+        data: updatedUser,
+        timestamp: Date.now(),
+        responseTime: Date.now() - startTime
+      };
+      res.json(response);
+    } catch (error) {
+      sendError(res, error, startTime, 'PATCH /users/:id');
+    }
+  });
+
+  // DELETE /users/:id - Delete a user
+  router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+    const startTime = Date.now();
+    
+    try {
+      const userId = parseUserId(req.params.id);
+      
+      if (userId === null) {
+        const response: ApiResponse = {
+          success: false,
+          error: 'Invalid user ID. Must be a positive integer.',
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(400).json(response);
+        return;
+      }
+
+      const deleted = await dbService.deleteUser(userId);
+      
+      if (!deleted) {
+        const response: ApiResponse = {
+          success: false,
+          error: `User with ID ${userId} not found`,
+          timestamp: Date.now(),
+          responseTime: Date.now() - startTime
+        };
+        res.status(404).json(response);
+        return;
+      }
+
+      await userLoader.delete(`user:${userId}`);
+      
       const response: ApiResponse = {
-        success: false,
-        error: 'Internal server error',
+        success: true,
+        data: { id: userId, deleted: true },
         timestamp: Date.now(),
         responseTime: Date.now() - startTime
       };
-      res.status(500).json(response);
+      res.json(response);
+    } catch (error) {
+      sendError(res, error, startTime, 'DELETE /users/:id');
     }
   });
 
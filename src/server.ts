@@ -0,0 +1,66 @@
+import { createApp } from './app';
+import { ConfigError, loadConfig, redactSettings } from './config';
+import { createLogger } from './logging/logger';
+import { AppSettings } from './types';
+
+// Server bootstrap: layers settings from defaults, a config file (--config or
+// CONFIG_FILE), environment variables and CLI flags, serves the app, reloads
+// the config on SIGHUP and shuts down on SIGTERM/SIGINT. Embedders use
+// createApp() instead.
+
+const log = createLogger('server');
+
+function load(): AppSettings {
+  return loadConfig(process.argv.slice(2), process.env);
+}
+
+let config: AppSettings;
+try {
+  config = load();
+} catch (error) {
+  if (!(error instanceof ConfigError)) {
+    throw error;
+  }
+  log.error('Invalid configuration', { problems: error.problems });
+  process.exit(1);
+}
+
+const { app, settings, reconfigure, close } = createApp(config);
+
+// Reload: rate limits, the cache TTL and log settings change in place;
+// anything else is logged and waits for a restart. An invalid config keeps the current one.
+async function reload(): Promise<void> {
+  try {
+    const { applied, restartRequired } = await reconfigure(load());
+    log.info('Config reloaded', { applied });
+    if (restartRequired.length > 0) {
+      log.warn('Changed settings need a restart', { settings: restartRequired });
+    }
+  } catch (error) {
+    log.error('Config reload failed, keeping the current config', {
+      ...(error instanceof ConfigError ? { problems: error.problems } : { error })
+    });
+  }
+}
+
+// Graceful shutdown
+async function shutdown(signal: string): Promise<void> {
+  log.info('Shutting down gracefully', { signal });
+  await close();
+  process.exit(0);
+}
+
+process.on('SIGHUP', () => reload());
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+// Start server
+app.listen(settings.port, () => {
+  log.info('Server listening', {
+    port: settings.port,
+    backend: settings.redisUrl ? 'redis' : 'memory',
+    userStorage: settings.usersFile ? 'file' : 'memory',
+    docs: `http://localhost:${settings.port}`,
+    config: redactSettings(settings)
+  });
+});
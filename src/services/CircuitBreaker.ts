@@ -0,0 +1,137 @@
+import { CircuitBreakerStatus, CircuitState, Clock } from '../types';
+import { systemClock } from '../clock';
+import { CircuitOpenError } from './errors';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('database');
+
+// Stops calling a failing dependency for a while instead of piling more load
+// on it. After failureThreshold consecutive failures the breaker opens and
+// every call fails fast with a CircuitOpenError. Once resetTimeoutMs has
+// passed it goes half-open: up to halfOpenMaxCalls trial calls go through,
+// and the first result closes it again (success) or reopens it (failure).
+export class CircuitBreaker {
+  private readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+  private readonly halfOpenMaxCalls: number;
+  private readonly clock: Clock;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures: number = 0;
+  private openedAt: number | null = null;
+  private trialCalls: number = 0;
+  private totalFailures: number = 0;
+  private rejectedCalls: number = 0;
+  private readonly stateListeners: Set<(state: CircuitState, previous: CircuitState) => void> = new Set();
+
+  constructor(
+    name: string = 'database',
+    failureThreshold: number = 5,
+    resetTimeoutMs: number = 10000,
+    halfOpenMaxCalls: number = 1,
+    clock: Clock = systemClock
+  ) {
+    this.name = name;
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutMs;
+    this.halfOpenMaxCalls = halfOpenMaxCalls;
+    this.clock = clock;
+  }
+
+  async execute<T>(call: () => Promise<T>): Promise<T> {
+    this.checkAllowed();
+
+    const trial = this.state === 'half-open';
+    if (trial) {
+      this.trialCalls++;
+    }
+
+    try {
+      const result = await call();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure();
+      throw error;
+    } finally {
+      if (trial) {
+        this.trialCalls--;
+      }
+    }
+  }
+
+  // Throws the CircuitOpenError execute() would, without making a call
+  checkAllowed(): void {
+    if (this.state === 'open' && this.clock.now() >= this.retryAt()!) {
+      this.transition('half-open');
+    }
+
+    const saturated = this.state === 'half-open' && this.trialCalls >= this.halfOpenMaxCalls;
+    if (this.state === 'open' || saturated) {
+      this.rejectedCalls++;
+      const retryAfterMs = this.state === 'open' ? this.retryAt()! - this.clock.now() : this.resetTimeoutMs;
+      throw new CircuitOpenError(`Circuit breaker for ${this.name} is open`, Math.max(retryAfterMs, 0));
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      failureThreshold: this.failureThreshold,
+      openedAt: this.openedAt,
+      retryAt: this.retryAt(),
+      totalFailures: this.totalFailures,
+      rejectedCalls: this.rejectedCalls
+    };
+  }
+
+  // Observe transitions (e.g. for metrics); returns an unsubscribe function
+  onStateChange(listener: (state: CircuitState, previous: CircuitState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  // A call that started before the breaker opened doesn't close it
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state === 'half-open') {
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+    // A failed trial reopens at once; a closed breaker waits for the threshold
+    if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.failureThreshold)) {
+      this.transition('open');
+    }
+  }
+
+  private retryAt(): number | null {
+    return this.state === 'open' && this.openedAt !== null ? this.openedAt + this.resetTimeoutMs : null;
+  }
+
+  private transition(state: CircuitState): void {
+    const previous = this.state;
+    this.state = state;
+    this.openedAt = state === 'open' ? this.clock.now() : state === 'closed' ? null : this.openedAt;
+    if (state === 'open') {
+      log.warn('Circuit breaker opened', { breaker: this.name, from: previous });
+    } else {
+      log.info('Circuit breaker state changed', { breaker: this.name, from: previous, to: state });
+    }
+
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state, previous);
+      } catch (error) {
+        log.error('Circuit breaker listener failed', { error });
+      }
+    });
+  }
+}
@@ -1,174 +1,586 @@
-import { User, QueueJob } from '../types';
+import {
+  User,
+  QueueJob,
+  QueueJobSettled,
+  QueuePriority,
+  UserRequest,
+  UserRequestOptions,
+  ConcurrencyLimit,
+  CircuitBreakerStatus,
+  RetryOptions,
+  SimulatedLatency,
+  Clock,
+  UpdateUserRequest,
+  UserListQuery,
+  UserPage,
+  UserRepository
+} from '../types';
 import { v4 as uuidv4 } from 'uuid';
+import { InMemoryUserRepository } from '../repositories/InMemoryUserRepository';
+import { AbortError, CircuitOpenError, NotFoundError, QueueFullError, TimeoutError, UnavailableError } from './errors';
+import { FixedLimit } from './concurrency';
+import { CircuitBreaker } from './CircuitBreaker';
+import { retryWithBackoff } from './retry';
+import { sleep, systemClock } from '../clock';
+import { createLogger } from '../logging/logger';
+import { currentLogContext, runWithLogContext } from '../logging/context';
 
-// Mock database
-const mockUsers: Record<number, User> = {
-  1: { id: 1, name: "John Doe", email: "john@example.com", createdAt: new Date('2023-01-01') },
-  2: { id: 2, name: "Jane Smith", email: "jane@example.com", createdAt: new Date('2023-01-02') },
-  3: { id: 3, name: "Alice Johnson", email: "alice@example.com", createdAt: new Date('2023-01-03') }
-};
+const log = createLogger('database');
+
+// Repository failures reach callers as UnavailableError (503), whatever the cause
+function asUnavailable(error: unknown, action: string): UnavailableError {
+  if (error instanceof UnavailableError) {
+    return error;
+  }
+  return new UnavailableError(`${action} failed: ${error instanceof Error ? error.message : String(error)}`);
+}
+
+// Requests waiting on one user, and the job that will answer them
+interface PendingUser {
+  job: QueueJob;
+  requests: UserRequest[];
+}
 
 export class DatabaseService {
-  private readonly processingQueue: QueueJob[] = [];
-  private readonly pendingRequests: Map<number, QueueJob[]> = new Map();
-  private isProcessing: boolean = false;
-  private nextUserId: number = 4;
+  private readonly repository: UserRepository;
+  private readonly maxBatchSize: number;
+  private readonly concurrencyLimit: ConcurrencyLimit;
+  private readonly defaultTimeoutMs: number;
+  private readonly maxQueueLength: number;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly retryOptions: RetryOptions;
+  private readonly latency: SimulatedLatency;
+  private readonly clock: Clock;
+  // One FIFO lane per priority; background jobs only start when no
+  // interactive job is waiting
+  private readonly lanes: Record<QueuePriority, QueueJob[]> = { interactive: [], background: [] };
+  private readonly pendingRequests: Map<number, PendingUser> = new Map();
+  // Per lane, the job gathering the ids requested in the current tick
+  private readonly filling: Record<QueuePriority, QueueJob | null> = { interactive: null, background: null };
+  private readonly running: Set<QueueJob> = new Set();
+  private readonly dropped = { timedOut: 0, aborted: 0 };
+  // Requests rejected because the queue was full, per lane
+  private readonly shed: Record<QueuePriority, number> = { interactive: 0, background: 0 };
+  // Moving average of job run time, for Retry-After estimates
+  private averageJobMs: number | null = null;
+  private destroyed: boolean = false;
+  private readonly settledListeners: Set<(event: QueueJobSettled) => void> = new Set();
 
-  constructor() {
-    // Start processing queue
-    this.startProcessing();
+  constructor(
+    repository: UserRepository = new InMemoryUserRepository(),
+    maxBatchSize: number = 100,
+    concurrencyLimit: ConcurrencyLimit = new FixedLimit(1), // 1 simulates a single database connection
+    defaultTimeoutMs: number = 5000,
+    maxQueueLength: number = 100, // Queued jobs, each of up to maxBatchSize ids
+    circuitBreaker: CircuitBreaker = new CircuitBreaker('database'),
+    retryOptions: RetryOptions = { attempts: 3, baseDelayMs: 50, maxDelayMs: 1000 },
+    clock: Clock = systemClock, // Timeouts, deadlines and the simulated latency
+    latency: SimulatedLatency = { readMs: 200, writeMs: 100 }
+  ) {
+    this.repository = repository;
+    this.maxBatchSize = maxBatchSize;
+    this.concurrencyLimit = concurrencyLimit;
+    this.defaultTimeoutMs = defaultTimeoutMs;
+    this.maxQueueLength = maxQueueLength;
+    this.circuitBreaker = circuitBreaker;
+    this.retryOptions = retryOptions;
+    this.latency = latency;
+    this.clock = clock;
   }
 
-  private startProcessing(): void {
-    this.processQueue();
-  }
+  // DataLoader-style: ids requested within the same tick are read by one job.
+  // Rejects with a TimeoutError past the deadline, or an AbortError when the
+  // signal fires; the job itself is cancelled once nobody waits for it.
+  // Rejects at once with a QueueFullError when the queue has no room, or a
+  // CircuitOpenError while the circuit breaker is open; a missing user is a
+  // NotFoundError and a failed read an UnavailableError.
+  async getUserById(userId: number, options: UserRequestOptions = {}): Promise<User> {
+    const priority = options.priority ?? 'interactive';
+    const timeoutMs = options.timeoutMs ?? this.defaultTimeoutMs;
+    const signal = options.signal;
 
-  async getUserById(userId: number): Promise<User> {
     return new Promise((resolve, reject) => {
-      const job: QueueJob = {
+      if (this.destroyed) {
+        reject(new UnavailableError('Database service has been shut down'));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(new AbortError(`Request for user ${userId} was aborted`));
+        return;
+      }
+
+      // Don't queue work for a database that is known to be failing
+      try {
+        this.circuitBreaker.checkAllowed();
+      } catch (error) {
+        reject(error);
+        return;
+      }
+
+      // Requests that would need a new job must fit in the queue
+      if (!this.pendingRequests.has(userId) && !this.filling[priority] && !this.admit(priority)) {
+        this.shed[priority]++;
+        reject(new QueueFullError(`Database queue is full (${this.maxQueueLength} jobs)`, this.retryAfterMs()));
+        return;
+      }
+
+      const timer = this.clock.setTimeout(() => {
+        this.dropped.timedOut++;
+        this.dropRequest(request, new TimeoutError(`Request for user ${userId} timed out after ${timeoutMs}ms`, timeoutMs));
+      }, timeoutMs);
+      const onAbort = () => {
+        this.dropped.aborted++;
+        this.dropRequest(request, new AbortError(`Request for user ${userId} was aborted`));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const now = this.clock.now();
+      const request: UserRequest = {
         id: uuidv4(),
         userId,
-        timestamp: Date.now(),
+        timestamp: now,
+        priority,
+        deadline: now + timeoutMs,
+        requestId: currentLogContext()?.requestId ?? null,
         resolve,
-        reject
+        reject,
+        cleanup: () => {
+          timer.cancel();
+          signal?.removeEventListener('abort', onAbort);
+        }
       };
 
       // Check if there's already a pending request for this user
-      const existingJobs = this.pendingRequests.get(userId);
-      if (existingJobs) {
+      const pending = this.pendingRequests.get(userId);
+      if (pending) {
         // Add to existing pending requests
-        existingJobs.push(job);
-        console.log(`Added request ${job.id} to existing pending requests for user ${userId}`);
+        pending.requests.push(request);
+        this.adopt(pending.job, request);
+        log.debug('Waiting on a pending read', { userId, jobId: pending.job.id });
         return;
       }
 
-      // Create new pending request group
-      this.pendingRequests.set(userId, [job]);
-      
-      // Add to processing queue
-      this.processingQueue.push(job);
-      console.log(`Queued request ${job.id} for user ${userId}. Queue size: ${this.processingQueue.length}`);
+      // Create new pending request group on this tick's job
+      const job = this.fillingJob(priority);
+      job.userIds.push(userId);
+      this.pendingRequests.set(userId, { job, requests: [request] });
+      this.adopt(job, request);
+      log.debug('Added to job', { userId, jobId: job.id });
+      if (job.userIds.length >= this.maxBatchSize) {
+        this.flush(priority);
+      }
     });
   }
 
-  async createUser(name: string, email: string): Promise<User> {
-    return new Promise((resolve, reject) => {
-      // Simulate async database write
-      setTimeout(() => {
-        try {
-          const newUser: User = {
-            id: this.nextUserId++,
-            name,
-            email,
-            createdAt: new Date()
-          };
-          
-          mockUsers[newUser.id] = newUser;
-          console.log(`Created new user: ${JSON.stringify(newUser)}`);
-          resolve(newUser);
-        } catch (error) {
-          reject(error as Error);
-        }
-      }, 100); // Shorter delay for user creation
+  // One entry per id, in order: the user, or the error for that id alone
+  getUsersByIds(userIds: number[], options: UserRequestOptions = {}): Promise<Array<User | Error>> {
+    return Promise.all(userIds.map(userId =>
+      this.getUserById(userId, options).catch(error => error instanceof Error ? error : new Error(String(error)))
+    ));
+  }
+
+  private queuedJobs(): number {
+    return this.lanes.interactive.length + this.lanes.background.length +
+      (this.filling.interactive ? 1 : 0) + (this.filling.background ? 1 : 0);
+  }
+
+  // Room for one more job? When full, interactive work displaces the most
+  // recently queued background job.
+  private admit(priority: QueuePriority): boolean {
+    if (this.queuedJobs() < this.maxQueueLength) {
+      return true;
+    }
+    const victim = priority === 'interactive' ? this.lanes.background.pop() : undefined;
+    if (!victim) {
+      return false;
+    }
+
+    victim.controller.abort();
+    const error = new QueueFullError('Shed from a full database queue for interactive work', this.retryAfterMs());
+    const batchSize = victim.userIds.reduce(
+      (settled, userId) => settled + this.rejectAllPendingRequests(victim, userId, error),
+      0
+    );
+    this.shed.background += batchSize;
+    this.reportSettled(victim, 'shed', batchSize, this.clock.now());
+    return true;
+  }
+
+  // Time for the queue ahead to drain at the current limit and job latency
+  private retryAfterMs(): number {
+    const rounds = Math.ceil(this.queuedJobs() / this.concurrencyLimit.limit);
+    return Math.max(1000, Math.ceil(rounds * (this.averageJobMs ?? 1000)));
+  }
+
+  private fillingJob(priority: QueuePriority): QueueJob {
+    const current = this.filling[priority];
+    if (current) {
+      return current;
+    }
+
+    const job: QueueJob = {
+      id: uuidv4(),
+      userIds: [],
+      requestIds: [],
+      timestamp: this.clock.now(),
+      priority,
+      deadline: 0,
+      controller: new AbortController()
+    };
+    this.filling[priority] = job;
+    process.nextTick(() => {
+      // Unless it already went out full
+      if (this.filling[priority] === job) {
+        this.flush(priority);
+      }
     });
+    return job;
+  }
+
+  // The job serves this request too: it waits as long as the request does, and
+  // an interactive request doesn't wait behind background work
+  private adopt(job: QueueJob, request: UserRequest): void {
+    job.deadline = Math.max(job.deadline, request.deadline);
+    if (request.requestId && !job.requestIds.includes(request.requestId)) {
+      job.requestIds.push(request.requestId);
+    }
+    if (request.priority !== 'interactive' || job.priority === 'interactive') {
+      return;
+    }
+
+    job.priority = 'interactive';
+    const index = this.lanes.background.indexOf(job);
+    if (index >= 0) {
+      this.lanes.background.splice(index, 1);
+      this.lanes.interactive.push(job);
+      log.debug('Promoted job to the interactive lane', { jobId: job.id });
+    }
   }
 
-  private async processQueue(): Promise<void> {
-    setInterval(async () => {
-      if (this.isProcessing || this.processingQueue.length === 0) {
+  private flush(priority: QueuePriority): void {
+    const job = this.filling[priority];
+    this.filling[priority] = null;
+    if (!job) {
+      return;
+    }
+
+    // Add to processing queue
+    const lane = this.lanes[job.priority];
+    lane.push(job);
+    log.debug('Queued job', { jobId: job.id, priority: job.priority, userIds: job.userIds, queueLength: lane.length });
+    this.drain();
+  }
+
+  // Start queued jobs while the concurrency limit allows; runs whenever a job
+  // is queued or finishes, so nothing polls
+  private drain(): void {
+    while (!this.destroyed && this.running.size < this.concurrencyLimit.limit) {
+      const job = this.lanes.interactive.shift() ?? this.lanes.background.shift();
+      if (!job) {
         return;
       }
 
-      this.isProcessing = true;
-      
-      try {
-        // Process one job at a time to simulate database concurrency limits
-        const job = this.processingQueue.shift();
-        if (job) {
-          await this.processJob(job);
-        }
-      } catch (error) {
-        console.error('Error processing queue:', error);
-      } finally {
-        this.isProcessing = false;
+      // Deadline timers can fire late under load; don't start work nobody waits for
+      if (this.clock.now() >= job.deadline) {
+        job.controller.abort();
       }
-    }, 50); // Process every 50ms
+
+      this.running.add(job);
+      const startedAt = this.clock.now();
+      // Everything the job logs (retries, breaker transitions) names it and
+      // the requests it serves, not whichever request happened to queue it
+      runWithLogContext({ jobId: job.id, requestIds: job.requestIds }, () => this.processJob(job))
+        .then(outcome => {
+          // Cancelled jobs were cut short by callers, not slowed by the database
+          if (outcome !== 'cancelled') {
+            this.recordLatency(this.clock.now() - startedAt, outcome === 'rejected');
+          }
+        })
+        .catch(error => log.error('Job failed unexpectedly', { jobId: job.id, error }))
+        .finally(() => {
+          this.running.delete(job);
+          this.drain();
+        });
+    }
   }
 
-  private async processJob(job: QueueJob): Promise<void> {
-    const { userId } = job;
-    console.log(`Processing job ${job.id} for user ${userId}`);
+  private recordLatency(latencyMs: number, dropped: boolean): void {
+    this.concurrencyLimit.onSample({ latencyMs, dropped, inFlight: this.running.size });
+    this.averageJobMs = this.averageJobMs === null ? latencyMs : this.averageJobMs * 0.8 + latencyMs * 0.2;
+  }
 
-    try {
-      // Simulate database delay
-      await new Promise(resolve => setTimeout(resolve, 200));
-      
-      const user = mockUsers[userId];
-      if (!user) {
-        const error = new Error(`User with ID ${userId} not found`);
-        this.rejectAllPendingRequests(userId, error);
+  // A request gave up (timeout or abort). The last request for a user ends
+  // its pending group, and a job left without any request is cancelled.
+  private dropRequest(request: UserRequest, error: Error): void {
+    const pending = this.pendingRequests.get(request.userId);
+    const index = pending ? pending.requests.indexOf(request) : -1;
+    if (!pending || index < 0) {
+      return;
+    }
+
+    pending.requests.splice(index, 1);
+    request.cleanup();
+    request.reject(error);
+
+    if (pending.requests.length > 0) {
+      return;
+    }
+    this.pendingRequests.delete(request.userId);
+    const { job } = pending;
+    if (!job.userIds.some(userId => this.pendingRequests.get(userId)?.job === job)) {
+      this.cancel(job);
+    }
+  }
+
+  // Running jobs notice the abort and report themselves
+  private cancel(job: QueueJob): void {
+    job.controller.abort();
+
+    // A job promoted by adopt() keeps filling in the lane it started in
+    const filling = (Object.keys(this.filling) as QueuePriority[]).find(priority => this.filling[priority] === job);
+    if (filling) {
+      this.filling[filling] = null;
+    } else {
+      const lane = this.lanes[job.priority];
+      const index = lane.indexOf(job);
+      if (index < 0) {
         return;
       }
+      lane.splice(index, 1);
+    }
+    this.reportSettled(job, 'cancelled', 0, this.clock.now());
+  }
 
-      // Resolve all pending requests for this user
-      this.resolveAllPendingRequests(userId, user);
-      
+  async createUser(name: string, email: string): Promise<User> {
+    // Simulate database write latency
+    await sleep(this.clock, this.latency.writeMs);
+
+    const newUser = await this.write(() => this.repository.create({ name, email }));
+    log.info('Created user', { user: newUser });
+    return newUser;
+  }
+
+  // Resolves to null when the user doesn't exist
+  async updateUser(userId: number, changes: UpdateUserRequest): Promise<User | null> {
+    // Simulate database write latency
+    await sleep(this.clock, this.latency.writeMs);
+
+    const user = await this.write(() => this.repository.update(userId, changes));
+    if (user) {
+      log.info('Updated user', { user });
+    }
+    return user;
+  }
+
+  async deleteUser(userId: number): Promise<boolean> {
+    // Simulate database write latency
+    await sleep(this.clock, this.latency.writeMs);
+
+    const deleted = await this.write(() => this.repository.delete(userId));
+    if (deleted) {
+      log.info('Deleted user', { userId });
+    }
+    return deleted;
+  }
+
+  // Filtered, sorted page of users (not queued; list reads aren't batched per id)
+  listUsers(query: UserListQuery): Promise<UserPage> {
+    return this.read(() => this.repository.list(query));
+  }
+
+  // Reads are retried with backoff through the circuit breaker. Retries stop
+  // once the breaker opens, and when the signal aborts.
+  private async read<R>(call: () => Promise<R>, signal?: AbortSignal): Promise<R> {
+    try {
+      return await retryWithBackoff(
+        () => this.circuitBreaker.execute(call),
+        this.retryOptions,
+        error => !(error instanceof CircuitOpenError),
+        signal,
+        this.clock
+      );
     } catch (error) {
-      console.error(`Error processing job ${job.id}:`, error);
-      this.rejectAllPendingRequests(userId, error as Error);
+      if (signal?.aborted) {
+        throw error;
+      }
+      throw asUnavailable(error, 'Database read');
     }
   }
 
-  private resolveAllPendingRequests(userId: number, user: User): void {
-    const pendingJobs = this.pendingRequests.get(userId);
-    if (pendingJobs) {
-      console.log(`Resolving ${pendingJobs.length} pending requests for user ${userId}`);
-      
-      pendingJobs.forEach(job => {
-        job.resolve(user);
-      });
-      
-      this.pendingRequests.delete(userId);
+  // Writes go through the circuit breaker but aren't retried: a write that
+  // failed after reaching the database could be applied twice
+  private async write<R>(call: () => Promise<R>): Promise<R> {
+    try {
+      return await this.circuitBreaker.execute(call);
+    } catch (error) {
+      throw asUnavailable(error, 'Database write');
     }
   }
 
-  private rejectAllPendingRequests(userId: number, error: Error): void {
-    const pendingJobs = this.pendingRequests.get(userId);
-    if (pendingJobs) {
-      console.log(`Rejecting ${pendingJobs.length} pending requests for user ${userId}`);
+  private async processJob(job: QueueJob): Promise<QueueJobSettled['outcome']> {
+    const startedAt = this.clock.now();
+    const { signal } = job.controller;
+    log.debug('Processing job', { priority: job.priority, userIds: job.userIds });
+
+    try {
+      // Simulate database delay (cut short if the job is cancelled)
+      await sleep(this.clock, this.latency.readMs, signal);
       
-      pendingJobs.forEach(job => {
-        job.reject(error);
-      });
+      // One query for the whole batch; each id is then settled on its own
+      const users = new Map((await this.read(() => this.repository.findByIds(job.userIds), signal)).map(user => [user.id, user]));
+      if (signal.aborted) {
+        this.reportSettled(job, 'cancelled', 0, startedAt);
+        return 'cancelled';
+      }
+
+      const batchSize = job.userIds.reduce((settled, userId) => {
+        const user = users.get(userId);
+        return settled + (user
+          ? this.resolveAllPendingRequests(job, userId, user)
+          : this.rejectAllPendingRequests(job, userId, new NotFoundError(`User with ID ${userId} not found`)));
+      }, 0);
+      this.reportSettled(job, 'resolved', batchSize, startedAt);
+      return 'resolved';
       
-      this.pendingRequests.delete(userId);
+    } catch (error) {
+      if (signal.aborted) {
+        this.reportSettled(job, 'cancelled', 0, startedAt);
+        return 'cancelled';
+      }
+      log.error('Job failed', { error });
+      const batchSize = job.userIds.reduce(
+        (settled, userId) => settled + this.rejectAllPendingRequests(job, userId, error as Error),
+        0
+      );
+      this.reportSettled(job, 'rejected', batchSize, startedAt);
+      return 'rejected';
+    }
+  }
+
+  // Observe every processed job (e.g. for latency metrics); returns an unsubscribe function
+  onJobSettled(listener: (event: QueueJobSettled) => void): () => void {
+    this.settledListeners.add(listener);
+    return () => {
+      this.settledListeners.delete(listener);
+    };
+  }
+
+  private reportSettled(job: QueueJob, outcome: QueueJobSettled['outcome'], batchSize: number, startedAt: number): void {
+    const event: QueueJobSettled = {
+      jobId: job.id,
+      userIds: job.userIds,
+      priority: job.priority,
+      outcome,
+      batchSize,
+      waitMs: startedAt - job.timestamp,
+      durationMs: this.clock.now() - job.timestamp
+    };
+    // Named explicitly: shed and cancelled jobs settle outside the job's context
+    const fields = { ...event, requestIds: job.requestIds };
+    if (outcome === 'resolved' || outcome === 'cancelled') {
+      log.info(`Job ${outcome}`, fields);
+    } else {
+      log.warn(`Job ${outcome}`, fields);
     }
+    this.settledListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        log.error('Queue job listener failed', { error });
+      }
+    });
+  }
+
+  // Both return how many waiting requests were settled. Requests that have
+  // since moved on to a newer job for the same user are left alone.
+  private resolveAllPendingRequests(job: QueueJob, userId: number, user: User): number {
+    const pending = this.pendingRequests.get(userId);
+    if (!pending || pending.job !== job) {
+      return 0;
+    }
+    log.debug('Resolving pending requests', { userId, requests: pending.requests.length });
+    
+    pending.requests.forEach(request => {
+      request.cleanup();
+      request.resolve(user);
+    });
+    
+    this.pendingRequests.delete(userId);
+    return pending.requests.length;
+  }
+
+  private rejectAllPendingRequests(job: QueueJob, userId: number, error: Error): number {
+    const pending = this.pendingRequests.get(userId);
+    if (!pending || pending.job !== job) {
+      return 0;
+    }
+    log.debug('Rejecting pending requests', { userId, requests: pending.requests.length, error });
+    
+    pending.requests.forEach(request => {
+      request.cleanup();
+      request.reject(error);
+    });
+    
+    this.pendingRequests.delete(userId);
+    return pending.requests.length;
   }
 
   // Get queue statistics
   getQueueStats() {
     return {
-      queueLength: this.processingQueue.length,
+      queueLength: this.lanes.interactive.length + this.lanes.background.length,
+      lanes: {
+        interactive: this.lanes.interactive.length,
+        background: this.lanes.background.length
+      },
+      maxQueueLength: this.maxQueueLength,
+      runningJobs: this.running.size,
+      concurrencyLimit: this.concurrencyLimit.limit,
+      concurrencyLimitAlgorithm: this.concurrencyLimit.name,
       pendingRequestGroups: this.pendingRequests.size,
       totalPendingRequests: Array.from(this.pendingRequests.values())
-        .reduce((total, jobs) => total + jobs.length, 0),
-      isProcessing: this.isProcessing
+        .reduce((total, pending) => total + pending.requests.length, 0),
+      timedOutRequests: this.dropped.timedOut,
+      abortedRequests: this.dropped.aborted,
+      shedRequests: { ...this.shed },
+      isProcessing: this.running.size > 0
     };
   }
 
+  getCircuitBreakerStatus(): CircuitBreakerStatus {
+    return this.circuitBreaker.getStatus();
+  }
+
+  // Observe circuit breaker transitions; returns an unsubscribe function
+  onCircuitStateChange(listener: Parameters<CircuitBreaker['onStateChange']>[0]): () => void {
+    return this.circuitBreaker.onStateChange(listener);
+  }
+
   // Get all users (for testing)
-  getAllUsers(): User[] {
-    return Object.values(mockUsers);
+  getAllUsers(): Promise<User[]> {
+    return this.repository.findAll();
   }
 
-  // Clear all data (for testing)
-  clearData(): void {
-    Object.keys(mockUsers).forEach(key => {
-      const id = parseInt(key);
-      if (id > 3) { // Keep original mock users
-        delete mockUsers[id];
-      }
+  // Reset to the seed users (for testing)
+  clearData(): Promise<void> {
+    return this.repository.reset();
+  }
+
+  // Stop processing and release the repository (waits for pending writes).
+  // Requests still waiting are rejected.
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+    const error = new UnavailableError('Database service has been shut down');
+    Array.from(this.pendingRequests.values()).forEach(pending => {
+      pending.job.controller.abort();
+      pending.requests.forEach(request => {
+        request.cleanup();
+        request.reject(error);
+      });
     });
-    this.nextUserId = 4;
+    this.pendingRequests.clear();
+    this.lanes.interactive.length = 0;
+    this.lanes.background.length = 0;
+    await this.repository.close();
   }
 }
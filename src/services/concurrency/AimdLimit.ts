@@ -0,0 +1,43 @@
+import { ConcurrencyLimit, ConcurrencyLimitSample } from '../../types';
+
+// Additive increase, multiplicative decrease, as in TCP congestion control:
+// +1 for every job that finishes under the latency threshold while the limit
+// is in use, times backoffRatio for every slow or failed one.
+export class AimdLimit implements ConcurrencyLimit {
+  readonly name = 'aimd' as const;
+  private current: number;
+  private readonly minLimit: number;
+  private readonly maxLimit: number;
+  private readonly latencyThresholdMs: number;
+  private readonly backoffRatio: number;
+
+  constructor(
+    initialLimit: number = 1,
+    minLimit: number = 1,
+    maxLimit: number = 10,
+    latencyThresholdMs: number = 1000,
+    backoffRatio: number = 0.9
+  ) {
+    this.current = initialLimit;
+    this.minLimit = minLimit;
+    this.maxLimit = maxLimit;
+    this.latencyThresholdMs = latencyThresholdMs;
+    this.backoffRatio = backoffRatio;
+  }
+
+  get limit(): number {
+    return this.current;
+  }
+
+  onSample(sample: ConcurrencyLimitSample): void {
+    if (sample.dropped || sample.latencyMs > this.latencyThresholdMs) {
+      this.current = Math.max(this.minLimit, Math.floor(this.current * this.backoffRatio));
+      return;
+    }
+
+    // Only grow a limit that is actually being used
+    if (sample.inFlight * 2 >= this.current) {
+      this.current = Math.min(this.maxLimit, this.current + 1);
+    }
+  }
+}
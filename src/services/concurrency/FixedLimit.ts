@@ -0,0 +1,15 @@
+import { ConcurrencyLimit } from '../../types';
+
+// A constant limit, whatever the latency
+export class FixedLimit implements ConcurrencyLimit {
+  readonly name = 'fixed' as const;
+  readonly limit: number;
+
+  constructor(limit: number = 1) {
+    this.limit = limit;
+  }
+
+  onSample(): void {
+    // Never changes
+  }
+}
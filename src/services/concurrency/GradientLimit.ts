@@ -0,0 +1,58 @@
+import { ConcurrencyLimit, ConcurrencyLimitSample } from '../../types';
+
+// Gradient-based: compares each job's latency with the long-run average.
+// While they match, the limit grows by a queue allowance (its square root);
+// as latency rises past tolerance x the average, it shrinks in proportion.
+// Needs no latency threshold, so it adapts to whatever the backend's normal is.
+export class GradientLimit implements ConcurrencyLimit {
+  readonly name = 'gradient' as const;
+  private estimate: number;
+  private readonly minLimit: number;
+  private readonly maxLimit: number;
+  private readonly tolerance: number;
+  private readonly smoothing: number;
+  // Exponential moving average of latency; slow to move, so it tracks the
+  // baseline rather than the current load
+  private averageLatencyMs: number | null = null;
+
+  constructor(
+    initialLimit: number = 1,
+    minLimit: number = 1,
+    maxLimit: number = 10,
+    tolerance: number = 1.5,
+    smoothing: number = 0.2
+  ) {
+    this.estimate = initialLimit;
+    this.minLimit = minLimit;
+    this.maxLimit = maxLimit;
+    this.tolerance = tolerance;
+    this.smoothing = smoothing;
+  }
+
+  get limit(): number {
+    return Math.max(this.minLimit, Math.floor(this.estimate));
+  }
+
+  onSample(sample: ConcurrencyLimitSample): void {
+    if (sample.dropped) {
+      this.estimate = Math.max(this.minLimit, this.estimate * 0.9);
+      return;
+    }
+
+    const latencyMs = Math.max(sample.latencyMs, 1);
+    this.averageLatencyMs = this.averageLatencyMs === null
+      ? latencyMs
+      : this.averageLatencyMs + (latencyMs - this.averageLatencyMs) * 0.05;
+
+    const gradient = Math.max(0.5, Math.min(1, (this.tolerance * this.averageLatencyMs) / latencyMs));
+    const target = this.estimate * gradient + Math.sqrt(this.estimate);
+
+    // Only grow a limit that is actually being used
+    if (target > this.estimate && sample.inFlight * 2 < this.estimate) {
+      return;
+    }
+
+    const next = this.estimate * (1 - this.smoothing) + target * this.smoothing;
+    this.estimate = Math.max(this.minLimit, Math.min(this.maxLimit, next));
+  }
+}
@@ -0,0 +1,21 @@
+import { ConcurrencyLimit, ConcurrencyLimitName } from '../../types';
+import { FixedLimit } from './FixedLimit';
+import { AimdLimit } from './AimdLimit';
+import { GradientLimit } from './GradientLimit';
+
+// Adaptive limits start at 1 and may grow up to maxLimit
+const limits: Record<ConcurrencyLimitName, (maxLimit: number) => ConcurrencyLimit> = {
+  'fixed': maxLimit => new FixedLimit(maxLimit),
+  'aimd': maxLimit => new AimdLimit(1, 1, maxLimit),
+  'gradient': maxLimit => new GradientLimit(1, 1, maxLimit)
+};
+
+export function createConcurrencyLimit(name: ConcurrencyLimitName, maxLimit: number): ConcurrencyLimit {
+  const factory = limits[name];
+  if (!factory) {
+    throw new Error(`Unknown concurrency limit: ${name}`);
+  }
+  return factory(maxLimit);
+}
+
+export { FixedLimit, AimdLimit, GradientLimit };
@@ -0,0 +1,58 @@
+// Errors DatabaseService rejects requests with. Routes map them to HTTP
+// statuses: NotFoundError 404, UnavailableError 503, TimeoutError 504.
+
+// The user doesn't exist; a valid answer, not a failure of the database
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+// The database can't serve the request right now (it failed, the circuit
+// breaker is open, or the queue is full). Worth retrying later.
+export class UnavailableError extends Error {
+  // Rough time until a retry might succeed, when known
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'UnavailableError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The queue was full, so the request was shed instead of queued
+export class QueueFullError extends UnavailableError {
+  constructor(message: string, retryAfterMs: number) {
+    super(message, retryAfterMs);
+    this.name = 'QueueFullError';
+  }
+}
+
+// The circuit breaker is open and failing calls fast
+export class CircuitOpenError extends UnavailableError {
+  constructor(message: string, retryAfterMs: number) {
+    super(message, retryAfterMs);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// The request's deadline passed before its job settled
+export class TimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// The caller's AbortSignal fired (e.g. the HTTP client disconnected)
+export class AbortError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AbortError';
+  }
+}
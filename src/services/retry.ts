@@ -0,0 +1,36 @@
+import { Clock, RetryOptions } from '../types';
+import { sleep, systemClock } from '../clock';
+import { createLogger } from '../logging/logger';
+
+const log = createLogger('database');
+
+// Delay before retry number `retry` (1-based): full jitter, so callers that
+// failed together don't retry together
+export function backoffDelay(retry: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+  return Math.random() * ceiling;
+}
+
+// Runs `task` until it succeeds, `shouldRetry` rejects the error, or the
+// attempts run out; the last error is thrown. Aborting the signal stops
+// the wait between attempts.
+export async function retryWithBackoff<T>(
+  task: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  shouldRetry: (error: unknown) => boolean = () => true,
+  signal?: AbortSignal,
+  clock: Clock = systemClock
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= options.attempts || !shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = backoffDelay(attempt, options);
+      log.warn('Attempt failed, retrying', { attempt, delayMs: Math.round(delayMs), error: error instanceof Error ? error.message : error });
+      await sleep(clock, delayMs, signal);
+    }
+  }
+}
@@ -3,6 +3,7 @@ export interface User {
   name: string;
   email: string;
   createdAt?: Date;
+  updatedAt?: Date;
 }
 
 export interface CacheEntry<T> {
@@ -10,30 +11,365 @@ export interface CacheEntry<T> {
   timestamp: number;
   accessCount: number;
   lastAccessed: number;
+  ttl: number;
+  expiresAt: number;
+  sliding: boolean;
+  size: number;
+  tags: string[];
+}
+
+export interface CacheSetOptions {
+  // Overrides the store's default TTL for this entry
+  ttlMs?: number;
+  // Randomize the TTL by up to this fraction (0-1) either way, so entries
+  // written together don't all expire together
+  jitter?: number;
+  // Push the expiry back by the entry's TTL on every fresh read
+  sliding?: boolean;
+  // Labels for invalidating related entries together (deleteByTag)
+  tags?: string[];
 }
 
 export interface CacheStats {
   hits: number;
   misses: number;
+  staleHits: number;
   currentSize: number;
   maxSize: number;
-  averageResponseTime: number;
+  currentBytes: number;
+  maxBytes: number;
   totalRequests: number;
 }
 
+export type Awaitable<T> = T | Promise<T>;
+
+// A scheduled callback; cancel() does nothing once a timeout has fired
+export interface Timer {
+  cancel(): void;
+}
+
+// Time source and timer scheduler. LRUCache, RateLimiter, DatabaseService and
+// the pieces they use take one (systemClock by default), so tests can swap in
+// a fake clock and advance time by hand.
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): Timer;
+  setInterval(callback: () => void, ms: number): Timer;
+}
+
+// fresh: within TTL. stale: past TTL but inside the stale-while-revalidate
+// window (serve, refresh in background). expired: only usable if a reload fails.
+export type CacheEntryStatus = 'fresh' | 'stale' | 'expired';
+
+export interface CacheLookup<T> {
+  value: T;
+  status: CacheEntryStatus;
+  age: number;
+  // How much longer the entry stays fresh (0 once it is stale)
+  freshFor: number;
+}
+
+// Common contract for cache backends. Methods may answer synchronously
+// (in-process stores) or asynchronously (network stores), so callers await them.
+// Why an entry was removed before it expired: the entry count or byte
+// budget was exceeded, or it was deleted/invalidated explicitly
+export type CacheEvictionReason = 'capacity' | 'bytes' | 'delete';
+
+export type CacheEvent =
+  | { type: 'hit'; key: string; status: 'fresh' | 'stale'; timestamp: number }
+  | { type: 'miss'; key: string; timestamp: number }
+  | { type: 'set'; key: string; ttlMs: number; tags: string[]; timestamp: number }
+  | { type: 'evict'; key: string; reason: CacheEvictionReason; timestamp: number }
+  | { type: 'expire'; key: string; timestamp: number }
+  | { type: 'clear'; timestamp: number };
+
+export type CacheEventType = CacheEvent['type'];
+
+// Listeners run synchronously inside the cache call; both methods return an
+// unsubscribe function
+export interface CacheEventSource {
+  on<K extends CacheEventType>(type: K, listener: (event: Extract<CacheEvent, { type: K }>) => void): () => void;
+  subscribe(listener: (event: CacheEvent) => void): () => void;
+}
+
+export interface CacheStore<T> extends CacheEventSource {
+  get(key: string): Awaitable<T | null>;
+  getEntry(key: string): Awaitable<CacheLookup<T> | null>;
+  set(key: string, value: T, options?: CacheSetOptions): Awaitable<void>;
+  delete(key: string): Awaitable<boolean>;
+  // Both return how many entries were removed; hit/miss stats are kept
+  deleteByPattern(pattern: string): Awaitable<number>;
+  deleteByTag(tag: string): Awaitable<number>;
+  has(key: string): Awaitable<boolean>;
+  clear(): Awaitable<void>;
+  // Keys matching a Redis-style glob (all keys when omitted)
+  keys(pattern?: string): Awaitable<string[]>;
+  getStats(): Awaitable<CacheStats>;
+  // Default TTL for entries stored from now on; existing entries keep theirs
+  setTtl(ttlMs: number): Awaitable<void>;
+  destroy(): Awaitable<void>;
+}
+
+export type EvictionPolicyName = 'lru' | 'lfu' | 'w-tinylfu' | 'arc' | 'fifo';
+
+// Chooses which resident key a bounded cache evicts. The cache reports every
+// insert, hit and removal; evict() forgets the key it returns (ghost history
+// may be kept) and must never return the key currently being inserted.
+export interface EvictionPolicy {
+  readonly name: EvictionPolicyName;
+  onInsert(key: string): void;
+  onAccess(key: string): void;
+  onRemove(key: string): void;
+  evict(incoming: string): string | undefined;
+  clear(): void;
+}
+
+export type RateLimitAlgorithmName =
+  | 'fixed-window'
+  | 'sliding-window-log'
+  | 'sliding-window-counter'
+  | 'token-bucket'
+  | 'gcra';
+
+// Persisted state, one shape per algorithm
+export type RateLimitState =
+  | { algorithm: 'fixed-window'; count: number; resetTime: number }
+  | { algorithm: 'sliding-window-log'; timestamps: number[] }
+  | { algorithm: 'sliding-window-counter'; windowStart: number; currentCount: number; previousCount: number }
+  | { algorithm: 'token-bucket'; tokens: number; lastRefill: number }
+  | { algorithm: 'gcra'; tat: number };
+
 export interface RateLimitInfo {
+  algorithm: RateLimitAlgorithmName;
+  policy: string;
+  window: RateLimitState | null;
+  burst: RateLimitState | null;
+}
+
+export interface RateLimitCounter {
   count: number;
   resetTime: number;
-  burstCount: number;
-  burstResetTime: number;
 }
 
-export interface QueueJob {
+export interface RateLimitStateUpdate<S, R> {
+  state: S;
+  ttlMs: number;
+  result: R;
+}
+
+// Storage for RateLimiter. increment() must be atomic: it creates the counter
+// with a fresh window when missing or expired, then adds `amount`. update()
+// must run the read-modify-write of `updater` atomically for the key.
+export interface RateLimitStore {
+  increment(key: string, windowMs: number, amount?: number): Awaitable<RateLimitCounter>;
+  decrement(key: string, windowMs: number, amount?: number): Awaitable<void>;
+  get(key: string): Awaitable<RateLimitCounter | null>;
+  update<S, R>(key: string, updater: (current: S | null, now: number) => RateLimitStateUpdate<S, R>): Awaitable<R>;
+  getState<S>(key: string): Awaitable<S | null>;
+  keys(prefix?: string): Awaitable<string[]>;
+  resetKey(key: string): Awaitable<void>;
+  resetAll(prefix?: string): Awaitable<void>;
+  destroy(): Awaitable<void>;
+}
+
+// legacy: X-RateLimit-* headers; draft: IETF RateLimit-Policy/RateLimit fields
+export type RateLimitHeaderMode = 'legacy' | 'draft' | 'both';
+
+export interface RateLimitQuota {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitUsage {
+  used: number;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+  retryAfterMs: number;
+}
+
+// One rate limiting algorithm. `cost` is how many request slots a call takes.
+// A rejected consume() must leave no cost behind; release() undoes an allowed
+// consume() when another layer rejects the request.
+export interface RateLimitStrategy {
+  readonly name: RateLimitAlgorithmName;
+  consume(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<RateLimitDecision>;
+  release(store: RateLimitStore, key: string, quota: RateLimitQuota, cost: number): Promise<void>;
+  inspect(store: RateLimitStore, key: string, quota: RateLimitQuota): Promise<RateLimitState | null>;
+  reset(store: RateLimitStore, key: string, quota: RateLimitQuota): Promise<void>;
+  usage(state: RateLimitState, quota: RateLimitQuota, now: number): RateLimitUsage;
+}
+
+// Why a request was let through or turned away by the rate limiter
+export type RateLimitOutcomeReason =
+  | 'within-limit'
+  | 'exempt'
+  | 'allowlist'
+  | 'store-unavailable'
+  | 'burst'
+  | 'window'
+  | 'denylist';
+
+export interface RateLimitOutcome {
+  policy: string;
+  clientId: string;
+  allowed: boolean;
+  reason: RateLimitOutcomeReason;
+}
+
+export interface RateLimitClientStatus {
+  clientId: string;
+  policy: string;
+  window: RateLimitUsage | null;
+  burst: RateLimitUsage | null;
+}
+
+export type AccessListAction = 'allow' | 'deny';
+
+export interface AccessListEntry {
+  clientId: string;
+  action: AccessListAction;
+  reason?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export type ClientTier = 'anonymous' | 'api-key' | 'internal';
+
+// A rate limit rule. Omitted matchers match everything; omitted limits fall
+// back to the limiter's defaults. Every rule gets its own counters.
+export interface RateLimitRule {
+  name: string;
+  methods?: string[];
+  path?: string;
+  tiers?: ClientTier[];
+  exempt?: boolean;
+  cost?: number;
+  maxRequests?: number;
+  windowMs?: number;
+  burstCapacity?: number;
+  burstWindowMs?: number;
+}
+
+export interface ResolvedRateLimitPolicy {
+  name: string;
+  tier: ClientTier;
+  exempt: boolean;
+  cost: number;
+  window: RateLimitQuota;
+  burst: RateLimitQuota;
+}
+
+// interactive: a caller is waiting on the response. background: cache
+// refreshes and other work nobody is blocked on; only runs when no
+// interactive job is queued.
+export type QueuePriority = 'interactive' | 'background';
+
+export interface UserRequestOptions {
+  priority?: QueuePriority;
+  // Reject with a TimeoutError if not settled within this time
+  timeoutMs?: number;
+  // Reject with an AbortError when aborted (e.g. the client disconnected)
+  signal?: AbortSignal;
+}
+
+// closed: calls go through. open: calls fail fast until the reset timeout
+// passes. half-open: a few trial calls decide whether to close or reopen.
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  failureThreshold: number;
+  openedAt: number | null;
+  // When an open breaker lets a trial call through
+  retryAt: number | null;
+  totalFailures: number;
+  rejectedCalls: number; // Failed fast while open
+}
+
+// Exponential backoff with full jitter: the nth retry waits a random time
+// up to min(maxDelayMs, baseDelayMs * 2^(n-1))
+export interface RetryOptions {
+  attempts: number; // Including the first
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// Delay DatabaseService adds to every job and write, standing in for a
+// real database round trip
+export interface SimulatedLatency {
+  readMs: number;
+  writeMs: number;
+}
+
+export type ConcurrencyLimitName = 'fixed' | 'aimd' | 'gradient';
+
+// How one database job went, fed back to the concurrency limit
+export interface ConcurrencyLimitSample {
+  latencyMs: number; // Run time, excluding time spent queued
+  dropped: boolean; // Failed or was cut short
+  inFlight: number; // Jobs running when it finished, itself included
+}
+
+// Decides how many database jobs may run at once. Adaptive limits grow while
+// jobs complete quickly and shrink when latency rises or jobs fail.
+export interface ConcurrencyLimit {
+  readonly name: ConcurrencyLimitName;
+  readonly limit: number;
+  onSample(sample: ConcurrencyLimitSample): void;
+}
+
+// A caller waiting for one user. Concurrent callers for the same id share a job.
+export interface UserRequest {
   id: string;
   userId: number;
   timestamp: number;
+  priority: QueuePriority;
+  deadline: number;
+  // The HTTP request it was made for (X-Request-Id), when known
+  requestId: string | null;
   resolve: (user: User) => void;
   reject: (error: Error) => void;
+  // Clears the deadline timer and abort listener
+  cleanup: () => void;
+}
+
+// One queued database read, covering every id requested in the same tick
+// and lane. Its priority, deadline and cancellation follow the requests it
+// serves: an interactive request promotes it, its deadline is the latest of
+// theirs, and it is aborted once none of them is waiting any more.
+export interface QueueJob {
+  id: string;
+  userIds: number[];
+  // HTTP requests it serves (X-Request-Id), for log correlation
+  requestIds: string[];
+  timestamp: number;
+  priority: QueuePriority;
+  deadline: number;
+  controller: AbortController;
+}
+
+// Reported once per processed job. 'rejected' means the read itself failed;
+// ids that don't exist only reject their own requests. 'cancelled' jobs lost
+// every waiting request (timeouts, aborts) before they finished. 'shed'
+// background jobs were dropped from a full queue to make room.
+export interface QueueJobSettled {
+  jobId: string;
+  userIds: number[];
+  priority: QueuePriority;
+  outcome: 'resolved' | 'rejected' | 'cancelled' | 'shed';
+  batchSize: number; // Requests settled
+  waitMs: number; // Queued until processing started
+  durationMs: number; // Queued until settled
 }
 
 export interface ApiResponse<T = any> {
@@ -42,6 +378,7 @@ export interface ApiResponse<T = any> {
   error?: string;
   timestamp: number;
   cached?: boolean;
+  stale?: boolean;
   responseTime?: number;
 }
 
@@ -49,3 +386,171 @@ export interface CreateUserRequest {
   name: string;
   email: string;
 }
+
+// One id of a batch lookup (GET /users?ids=, POST /users/batch); ids that
+// fail carry their own error and don't fail the rest
+export type UserBatchResult =
+  | { id: number; success: true; data: User; cached: boolean; stale: boolean }
+  | { id: number; success: false; error: string; status: number };
+
+// PATCH body; PUT requires both fields
+export type UpdateUserRequest = Partial<CreateUserRequest>;
+
+export type UserSortField = 'id' | 'name' | 'email' | 'createdAt';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Position after the last user of a page: its sort value, with the id as
+// tie-breaker. Pages stay stable while users are added or removed.
+export interface UserCursor {
+  sort: UserSortField;
+  order: SortOrder;
+  value: string | number;
+  id: number;
+}
+
+export interface UserListQuery {
+  // Case-insensitive substring matches
+  name?: string;
+  email?: string;
+  sort: UserSortField;
+  order: SortOrder;
+  limit: number;
+  after?: UserCursor;
+}
+
+export interface UserPage {
+  users: User[];
+  // Opaque; null on the last page
+  nextCursor: string | null;
+}
+
+// Storage behind DatabaseService. Implementations assign ids (ascending,
+// never reused) and return copies, so callers can't mutate stored users.
+export interface UserRepository {
+  findById(id: number): Promise<User | null>;
+  findAll(): Promise<User[]>;
+  // The users that exist, in no particular order
+  findByIds(ids: number[]): Promise<User[]>;
+  list(query: UserListQuery): Promise<UserPage>;
+  create(input: CreateUserRequest): Promise<User>;
+  // Both return null/false when the user doesn't exist
+  update(id: number, changes: UpdateUserRequest): Promise<User | null>;
+  delete(id: number): Promise<boolean>;
+  // Back to the seed data (for testing)
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+// A response the cache middleware stored: only string bodies (JSON, text)
+// are cached
+export interface CachedResponse {
+  status: number;
+  contentType: string | null;
+  body: string;
+  etag: string;
+  // When the route produced it (ms since epoch), sent as Last-Modified
+  lastModified: number;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+// Correlation fields added to every record logged while a request or queue
+// job runs
+export interface LogContext {
+  requestId?: string;
+  // A queue job and the HTTP requests it serves
+  jobId?: string;
+  requestIds?: string[];
+}
+
+// One structured log line
+export interface LogRecord extends LogContext {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  module: string;
+  msg: string;
+  [field: string]: unknown;
+}
+
+// Everything createApp() needs to build the service. The server layers it
+// from defaults, a config file, environment variables and CLI flags (see
+// src/config); embedders pass what they want to change.
+export interface AppSettings {
+  // Port the server listens on (createApp() itself never listens)
+  port: number;
+  // Share the cache and rate limit counters between replicas through a
+  // Redis-protocol server; otherwise both are kept in-process
+  redisUrl?: string;
+  // A Redis command that gets no reply in time fails, and the cache and rate
+  // limiter fall back as if the server were down; 0 waits forever
+  redisCommandTimeoutMs: number;
+  // Keep users across restarts in this append-only JSON Lines log
+  usersFile?: string;
+  cacheMaxSize: number;
+  cacheTtlMs: number;
+  // How long expired entries are served while refreshing in the background,
+  // and for how long on top of that while the database is failing
+  cacheStaleWhileRevalidateMs: number;
+  cacheStaleIfErrorMs: number;
+  // 0 = no byte budget, only the entry count applies
+  cacheMaxBytes: number;
+  cacheCleanupIntervalMs: number;
+  cacheEvictionPolicy: EvictionPolicyName;
+  // Fraction cached users' TTLs vary by (0.1 = ±10%), so users created in a
+  // burst don't all expire at once
+  cacheTtlJitter: number;
+  // Default quota for clients no policy rule gives their own limits
+  rateLimitMaxRequests: number;
+  rateLimitWindowMs: number;
+  rateLimitBurstCapacity: number;
+  rateLimitBurstWindowMs: number;
+  // Quota of API key clients, over the default windows
+  rateLimitApiKeyMaxRequests: number;
+  rateLimitApiKeyBurstCapacity: number;
+  // Requests a user write (POST /users) and a user update or delete count as
+  rateLimitUserWriteCost: number;
+  rateLimitUserUpdateCost: number;
+  rateLimitAlgorithm: RateLimitAlgorithmName;
+  rateLimitHeaders: RateLimitHeaderMode;
+  // Keys sent in X-API-Key; internal keys bypass rate limiting
+  apiKeys: string[];
+  internalApiKeys: string[];
+  // A hop count, or the proxies (CIDRs or names like 'loopback') whose
+  // X-Forwarded-For is trusted; [] ignores the header
+  trustedProxies: number | string[];
+  // Identify clients by the subject of HS256 bearer tokens signed with this
+  jwtSecret?: string;
+  // The admin API is only mounted when this is set
+  adminToken?: string;
+  // User ids per batched job
+  dbBatchSize: number;
+  dbConcurrencyLimit: ConcurrencyLimitName;
+  dbMaxConcurrency: number;
+  dbTimeoutMs: number;
+  dbMaxQueueLength: number;
+  dbBreakerFailureThreshold: number;
+  dbBreakerResetMs: number;
+  dbRetryAttempts: number;
+  dbRetryBaseDelayMs: number;
+  dbRetryMaxDelayMs: number;
+  // Simulated database round trip of each job and write
+  dbReadLatencyMs: number;
+  dbWriteLatencyMs: number;
+  // Minimum level logged, and overrides per module (e.g. { database: 'debug' })
+  logLevel: LogLevel;
+  logLevels: Record<string, LogLevel>;
+  // Log fields (at any depth) whose values are replaced with [redacted]
+  logRedact: string[];
+}
+
+export type AppOptions = Partial<AppSettings> & {
+  clock?: Clock;
+};
+
+// What a reload changed: settings applied to the running app, and changed
+// settings that only take effect after a restart
+export interface ConfigReloadResult {
+  applied: (keyof AppSettings)[];
+  restartRequired: (keyof AppSettings)[];
+}
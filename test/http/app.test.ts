@@ -0,0 +1,454 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { setTimeout as sleep } from 'timers/promises';
+import express, { Express } from 'express';
+import { createApp, configureLogging, jsonSink, AppInstance, ConfigError, LogRecord } from '../../src';
+import { inject, InjectOptions } from '../support/inject';
+
+const INTERNAL_KEY = 'test-internal-key';
+const ADMIN_TOKEN = 'test-admin-token';
+
+// HTTP tests against the real app, run in process without binding a port.
+// Internal keys skip rate limiting; tests that exercise the limiter use their
+// own client address instead.
+describe('app', () => {
+  let instance: AppInstance;
+  let app: Express;
+
+  before(() => {
+    instance = createApp({ internalApiKeys: [INTERNAL_KEY], adminToken: ADMIN_TOKEN });
+    app = instance.app;
+  });
+
+  after(async () => {
+    await instance.close();
+  });
+
+  const internal = (options: InjectOptions) =>
+    inject(app, { ...options, headers: { 'x-api-key': INTERNAL_KEY, ...options.headers } });
+
+  it('reports health and serves the docs without counting against the rate limit', async () => {
+    const health = await inject(app, { url: '/health', remoteAddress: '10.0.0.1' });
+    assert.equal(health.status, 200);
+    assert.equal(health.body.data.status, 'healthy');
+
+    const docs = await inject(app, { url: '/', remoteAddress: '10.0.0.1' });
+    assert.equal(docs.status, 200);
+    assert.ok(docs.body.endpoints['GET /users/:id']);
+    assert.equal(docs.body.rateLimiting.requests, '10 per 60 seconds');
+    assert.equal(docs.body.caching.maxBytes, '1 MB');
+    assert.equal(docs.body.config.effective.adminToken, '[redacted]');
+    assert.equal(docs.headers['x-ratelimit-limit'], undefined);
+  });
+
+  it('serves a user from the database, then from the cache', async () => {
+    const first = await internal({ url: '/users/1' });
+    assert.equal(first.status, 200);
+    assert.equal(first.body.data.email, 'john@example.com');
+
+    const second = await internal({ url: '/users/1' });
+    assert.equal(second.body.cached, true);
+    assert.deepEqual(second.body.data, first.body.data);
+  });
+
+  it('answers conditional requests for unchanged users with a 304', async () => {
+    const first = await internal({ url: '/users/3' });
+    const etag = String(first.headers['etag']);
+    assert.equal(first.headers['cache-control'], 'no-cache');
+
+    // Same user, different response body (timestamps, cached flag): same ETag
+    const unchanged = await internal({ url: '/users/3', headers: { 'if-none-match': etag } });
+    assert.equal(unchanged.status, 304);
+    assert.equal(unchanged.text, '');
+
+    await internal({ method: 'PATCH', url: '/users/3', body: { email: 'alice.johnson@example.com' } });
+    const changed = await internal({ url: '/users/3', headers: { 'if-none-match': etag } });
+    assert.equal(changed.status, 200);
+    assert.notEqual(changed.headers['etag'], etag);
+    assert.equal(changed.headers['last-modified'], new Date(changed.body.data.updatedAt).toUTCString());
+  });
+
+  it('rejects invalid ids and reports missing users', async () => {
+    assert.equal((await internal({ url: '/users/abc' })).status, 400);
+
+    const missing = await internal({ url: '/users/9999' });
+    assert.equal(missing.status, 404);
+    assert.equal(missing.body.success, false);
+  });
+
+  it('validates, creates, updates and deletes users', async () => {
+    const invalid = await internal({ method: 'POST', url: '/users', body: { name: 'Ada' } });
+    assert.equal(invalid.status, 400);
+    assert.equal(invalid.body.error, 'Name and email are required');
+
+    const badEmail = await internal({ method: 'POST', url: '/users', body: { name: 'Ada', email: 'not-an-email' } });
+    assert.equal(badEmail.status, 400);
+
+    const created = await internal({ method: 'POST', url: '/users', body: { name: 'Ada', email: 'ada@example.com' } });
+    assert.equal(created.status, 201);
+    const id = created.body.data.id;
+
+    const patched = await internal({ method: 'PATCH', url: `/users/${id}`, body: { name: 'Ada Lovelace' } });
+    assert.equal(patched.status, 200);
+    assert.equal(patched.body.data.name, 'Ada Lovelace');
+    assert.equal(patched.body.data.email, 'ada@example.com');
+
+    // Writes go through to the cache
+    assert.equal((await internal({ url: `/users/${id}` })).body.data.name, 'Ada Lovelace');
+
+    assert.equal((await internal({ method: 'DELETE', url: `/users/${id}` })).status, 200);
+    assert.equal((await internal({ url: `/users/${id}` })).status, 404);
+    assert.equal((await internal({ method: 'DELETE', url: `/users/${id}` })).status, 404);
+  });
+
+  it('looks up several users at once with per-user results', async () => {
+    const response = await internal({ method: 'POST', url: '/users/batch', body: { ids: [2, 9999, 3] } });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.data.found, 2);
+    assert.deepEqual(
+      response.body.data.results.map((result: { id: number; status?: number }) => [result.id, result.status]),
+      [[2, undefined], [9999, 404], [3, undefined]]
+    );
+
+    assert.equal((await internal({ url: '/users?ids=2,3' })).body.data.found, 2);
+    assert.equal((await internal({ method: 'POST', url: '/users/batch', body: { ids: 'all' } })).status, 400);
+  });
+
+  it('lists users a page at a time', async () => {
+    const firstPage = await internal({ url: '/users?sort=name&limit=2' });
+    assert.equal(firstPage.status, 200);
+    assert.equal(firstPage.body.data.users.length, 2);
+    assert.ok(firstPage.body.data.nextCursor);
+
+    const secondPage = await internal({ url: `/users?sort=name&limit=2&cursor=${firstPage.body.data.nextCursor}` });
+    const names = [...firstPage.body.data.users, ...secondPage.body.data.users].map((user: { name: string }) => user.name);
+    assert.deepEqual(names.slice(0, 3), ['Alice Johnson', 'Jane Smith', 'John Doe']);
+
+    assert.equal((await internal({ url: '/users?cursor=bogus' })).status, 400);
+  });
+
+  it('reports cache, queue and circuit breaker status', async () => {
+    const response = await internal({ url: '/cache/status' });
+    assert.equal(response.status, 200);
+    assert.ok(response.body.data.cache);
+    assert.ok(response.body.data.queue);
+    assert.equal(response.body.data.circuitBreaker.state, 'closed');
+  });
+
+  const cacheUser = (key: string, tags: string[] = []) =>
+    instance.userCache.set(key, { id: 1, name: key, email: `${key}@example.com` }, { tags });
+
+  it('invalidates single keys, even ones named like the other routes', async () => {
+    await cacheUser('tags');
+    await cacheUser('patterns');
+
+    for (const key of ['tags', 'patterns']) {
+      const deleted = await internal({ method: 'DELETE', url: `/cache/keys/${key}` });
+      assert.equal(deleted.status, 200, key);
+      assert.equal(deleted.body.data.deleted, 1);
+      assert.equal(await instance.userCache.get(key), null);
+    }
+
+    const missing = await internal({ method: 'DELETE', url: '/cache/keys/tags' });
+    assert.equal(missing.status, 404);
+    assert.match(missing.body.error, /No cache entry for tags/);
+  });
+
+  it('invalidates by tag and by URL-encoded glob pattern', async () => {
+    await cacheUser('tagged:1', ['listing']);
+    await cacheUser('tagged:2', ['listing']);
+    await cacheUser('page:1');
+    await cacheUser('page:10');
+    await cacheUser('page:2');
+
+    const byTag = await internal({ method: 'DELETE', url: '/cache/tags/listing' });
+    assert.equal(byTag.status, 200);
+    assert.equal(byTag.body.data.deleted, 2);
+    assert.equal((await internal({ method: 'DELETE', url: '/cache/tags/listing' })).body.data.deleted, 0);
+
+    const byPattern = await internal({ method: 'DELETE', url: `/cache/patterns/${encodeURIComponent('page:1*')}` });
+    assert.equal(byPattern.status, 200);
+    assert.equal(byPattern.body.data.deleted, 2);
+    assert.deepEqual(await instance.userCache.keys('page:*'), ['page:2']);
+    await instance.userCache.delete('page:2');
+  });
+
+  it('pages through cache keys with a cursor', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await cacheUser(`listed:${i}`);
+    }
+
+    const pages: string[][] = [];
+    let cursor: string | null = null;
+    do {
+      const query: string = cursor === null ? '' : `&cursor=${cursor}`;
+      const page = await internal({ url: `/cache/keys?pattern=listed:*&limit=2${query}` });
+      assert.equal(page.status, 200);
+      assert.equal(page.body.data.total, 5);
+      pages.push(page.body.data.keys);
+      cursor = page.body.data.nextCursor;
+    } while (cursor !== null);
+    assert.deepEqual(pages, [['listed:1', 'listed:2'], ['listed:3', 'listed:4'], ['listed:5']]);
+
+    for (const query of ['cursor=-1', 'cursor=abc', 'cursor=1.5', 'limit=0', 'limit=1001']) {
+      const invalid = await internal({ url: `/cache/keys?${query}` });
+      assert.equal(invalid.status, 400, query);
+      assert.equal(invalid.body.success, false);
+    }
+    await instance.userCache.deleteByPattern('listed:*');
+  });
+
+  // inject() waits for the response to finish, which an event stream never
+  // does: this test listens on a real port
+  it('streams cache events as SSE and unsubscribes when the client disconnects', { timeout: 5000 }, async () => {
+    let subscriptions = 0;
+    const subscribe = instance.userCache.subscribe.bind(instance.userCache);
+    instance.userCache.subscribe = listener => {
+      subscriptions++;
+      const unsubscribe = subscribe(listener);
+      return () => {
+        subscriptions--;
+        unsubscribe();
+      };
+    };
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await new Promise<http.IncomingMessage>((resolve, reject) => {
+        http.get({ port, path: '/cache/events?prefix=sse:', headers: { 'x-api-key': INTERNAL_KEY } }, resolve).on('error', reject);
+      });
+      assert.equal(response.statusCode, 200);
+      assert.equal(response.headers['content-type'], 'text/event-stream');
+      assert.equal(response.headers['cache-control'], 'no-cache');
+      assert.equal(subscriptions, 1);
+
+      let received = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk: string) => {
+        received += chunk;
+      });
+      await cacheUser('other:1');
+      await cacheUser('sse:1');
+      await instance.userCache.delete('sse:1');
+      while (!received.includes('event: evict')) {
+        await sleep(5);
+      }
+
+      const frames = received.split('\n\n').filter(frame => frame.startsWith('event:'));
+      assert.deepEqual(frames.map(frame => frame.split('\n')[0]), ['event: set', 'event: evict']);
+      const evicted = JSON.parse(frames[1]!.split('\n')[1]!.slice('data: '.length));
+      assert.deepEqual([evicted.key, evicted.reason], ['sse:1', 'delete']);
+
+      response.destroy();
+      while (subscriptions > 0) {
+        await sleep(5);
+      }
+    } finally {
+      instance.userCache.subscribe = subscribe;
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('exports metrics in OpenMetrics format', async () => {
+    const response = await inject(app, { url: '/metrics', remoteAddress: '10.0.0.2' });
+    assert.equal(response.status, 200);
+    assert.match(String(response.headers['content-type']), /openmetrics-text/);
+    assert.match(response.text, /^# TYPE http_request_duration_seconds histogram$/m);
+    assert.match(response.text, /# EOF\n$/);
+  });
+
+  it('limits bursts per client with a 429 and Retry-After', async () => {
+    const statuses: number[] = [];
+    for (let i = 0; i < 6; i++) {
+      statuses.push((await inject(app, { url: '/users/404', remoteAddress: '10.0.0.3' })).status);
+    }
+    assert.deepEqual(statuses, [404, 404, 404, 404, 404, 429]);
+
+    const limited = await inject(app, { url: '/users/1', remoteAddress: '10.0.0.3' });
+    assert.equal(limited.status, 429);
+    assert.ok(Number(limited.headers['retry-after']) > 0);
+
+    // Other clients are unaffected
+    assert.equal((await inject(app, { url: '/users/1', remoteAddress: '10.0.0.4' })).status, 200);
+  });
+
+  it('guards the admin API with the admin token', async () => {
+    const denied = await internal({ url: '/admin/rate-limits' });
+    assert.equal(denied.status, 401);
+    assert.equal(denied.headers['www-authenticate'], 'Bearer');
+
+    const listed = await internal({ url: '/admin/rate-limits', headers: { authorization: `Bearer ${ADMIN_TOKEN}` } });
+    assert.equal(listed.status, 200);
+  });
+
+  const admin = (options: InjectOptions) =>
+    internal({ ...options, headers: { authorization: `Bearer ${ADMIN_TOKEN}`, ...options.headers } });
+
+  it('lists a limited client and resets its counters through the admin API', async () => {
+    const request = () => inject(app, { url: '/users/404', remoteAddress: '10.0.0.5' });
+    for (let i = 0; i < 5; i++) {
+      await request();
+    }
+    assert.equal((await request()).status, 429);
+
+    const listed = await admin({ url: '/admin/rate-limits' });
+    assert.ok(listed.body.data.clients.some((client: { clientId: string }) => client.clientId === 'ip:10.0.0.5'));
+
+    const reset = await admin({ method: 'DELETE', url: '/admin/rate-limits/clients/ip:10.0.0.5' });
+    assert.equal(reset.status, 200);
+    assert.equal((await request()).status, 404, 'the next request is let through');
+  });
+
+  it('allows and denies clients through the admin API', async () => {
+    const denied = await admin({ method: 'PUT', url: '/admin/rate-limits/access/ip:10.0.0.6', body: { action: 'deny', ttlSeconds: 60, reason: 'abuse' } });
+    assert.equal(denied.status, 200);
+    assert.equal(denied.body.data.action, 'deny');
+    assert.equal((await inject(app, { url: '/users/1', remoteAddress: '10.0.0.6' })).status, 403);
+
+    assert.equal((await admin({ method: 'DELETE', url: '/admin/rate-limits/access/ip:10.0.0.6' })).status, 200);
+    assert.equal((await inject(app, { url: '/users/1', remoteAddress: '10.0.0.6' })).status, 200);
+    assert.equal((await admin({ method: 'DELETE', url: '/admin/rate-limits/access/ip:10.0.0.6' })).status, 404);
+
+    await admin({ method: 'PUT', url: '/admin/rate-limits/access/ip:10.0.0.7', body: { action: 'allow', ttlSeconds: 60 } });
+    for (let i = 0; i < 8; i++) {
+      const allowed = await inject(app, { url: '/users/1', remoteAddress: '10.0.0.7' });
+      assert.equal(allowed.status, 200, `request ${i + 1}`);
+      assert.equal(allowed.headers['x-ratelimit-policy'], 'allowlist');
+    }
+  });
+
+  it('rejects invalid access list entries', async () => {
+    const put = (body: unknown) => admin({ method: 'PUT', url: '/admin/rate-limits/access/ip:10.0.0.8', body });
+
+    const badAction = await put({ action: 'block', ttlSeconds: 60 });
+    assert.equal(badAction.status, 400);
+    assert.match(badAction.body.error, /Action must be 'allow' or 'deny'/);
+    for (const ttlSeconds of [0, -5, '60', undefined]) {
+      const badTtl = await put({ action: 'deny', ttlSeconds });
+      assert.equal(badTtl.status, 400, `ttlSeconds ${String(ttlSeconds)}`);
+      assert.match(badTtl.body.error, /ttlSeconds must be a positive number/);
+    }
+    const { access } = (await admin({ url: '/admin/rate-limits' })).body.data;
+    assert.ok(!access.some((entry: { clientId: string }) => entry.clientId === 'ip:10.0.0.8'));
+  });
+
+  it('tags responses and log records with the request ID', async () => {
+    const records: LogRecord[] = [];
+    configureLogging({ sink: record => records.push(record) });
+    try {
+      const missing = await internal({ url: '/users/999', headers: { 'x-request-id': 'trace-123' } });
+      assert.equal(missing.status, 404);
+      assert.equal(missing.headers['x-request-id'], 'trace-123');
+
+      const created = await internal({ method: 'POST', url: '/users', body: { name: 'Grace', email: 'grace@example.com' } });
+      assert.match(String(created.headers['x-request-id']), /^[0-9a-f-]{36}$/);
+
+      const invalid = await internal({ url: '/health', headers: { 'x-request-id': 'not valid!' } });
+      assert.notEqual(invalid.headers['x-request-id'], 'not valid!');
+    } finally {
+      configureLogging({ sink: jsonSink });
+    }
+
+    const completed = records.find(record => record.msg === 'Request completed' && record.requestId === 'trace-123');
+    assert.deepEqual([completed?.method, completed?.path, completed?.status], ['GET', '/users/999', 404]);
+    const job = records.find(record => record.msg === 'Job resolved' && (record.requestIds ?? []).includes('trace-123'));
+    assert.ok(job?.jobId, 'the queue job names the request it served');
+
+    const user = records.find(record => record.msg === 'Created user')?.user as Record<string, unknown>;
+    assert.equal(user.name, 'Grace');
+    assert.equal(user.email, '[redacted]');
+  });
+
+  it('answers unknown routes with 404', async () => {
+    const response = await internal({ url: '/nope' });
+    assert.equal(response.status, 404);
+    assert.equal(response.body.success, false);
+  });
+});
+
+describe('createApp', () => {
+  it('builds independent apps that can be mounted under a path', async () => {
+    const first = createApp();
+    const second = createApp();
+    const host = express();
+    host.use('/api', first.app);
+
+    try {
+      const response = await inject(host, { url: '/api/users/1', remoteAddress: '10.0.1.1' });
+      assert.equal(response.status, 200);
+      assert.equal(response.body.data.id, 1);
+
+      // Each app has its own services
+      assert.equal((await first.userCache.getStats()).currentSize, 1);
+      assert.equal((await second.userCache.getStats()).currentSize, 0);
+
+      // No admin token, no admin API
+      assert.equal((await inject(second.app, { url: '/admin/rate-limits' })).status, 404);
+    } finally {
+      await first.close();
+      await second.close();
+    }
+  });
+
+  it('validates its options', () => {
+    assert.throws(
+      () => createApp({ cacheTtlMs: 0, dbRetryAttempts: 1.5 }),
+      (error: unknown) => error instanceof ConfigError && error.problems.length === 2 && /cacheTtlMs \(in createApp\(\) options\)/.test(error.problems[0]!)
+    );
+  });
+
+  it('documents and enforces the policy limits, costs and TTL jitter it was given', async () => {
+    const instance = createApp({ apiKeys: ['key'], rateLimitApiKeyMaxRequests: 50, rateLimitUserWriteCost: 3, cacheTtlJitter: 0.25 });
+
+    try {
+      const docs = await inject(instance.app, { url: '/' });
+      assert.equal(docs.body.rateLimiting.policies['api-key'], '50 per 60 seconds, 20 burst per 10 seconds (api-key clients)');
+      assert.equal(
+        docs.body.rateLimiting.policies['user-writes'],
+        '10 per 60 seconds, 5 burst per 10 seconds (POST /users), each request counts as 3'
+      );
+      assert.equal(docs.body.rateLimiting.policies.default, '10 per 60 seconds, 5 burst per 10 seconds');
+      assert.equal(docs.body.rateLimiting.policies.exempt, 'internal clients, GET /health, GET /, GET /metrics');
+      assert.equal(docs.body.caching.ttlJitter, '±25%');
+
+      const keyed = await inject(instance.app, { url: '/users/1', headers: { 'x-api-key': 'key' } });
+      assert.equal(keyed.headers['x-ratelimit-limit'], '50');
+    } finally {
+      await instance.close();
+    }
+  });
+
+  it('reloads rate limits and the cache TTL in place and reports other changes', async () => {
+    const instance = createApp({ rateLimitBurstCapacity: 2, adminToken: ADMIN_TOKEN });
+    const request = () => inject(instance.app, { url: '/users/1', remoteAddress: '10.0.2.1' });
+
+    try {
+      await request();
+      await request();
+      assert.equal((await request()).status, 429);
+
+      const result = await instance.reconfigure({ rateLimitBurstCapacity: 4, cacheTtlMs: 1000, dbMaxConcurrency: 8, adminToken: ADMIN_TOKEN });
+      assert.deepEqual(result, { applied: ['cacheTtlMs', 'rateLimitBurstCapacity'], restartRequired: ['dbMaxConcurrency'] });
+
+      // The burst counter survived the reload: two of the four are used
+      assert.equal((await request()).status, 200);
+      assert.equal((await request()).status, 200);
+      assert.equal((await request()).status, 429);
+
+      const docs = await inject(instance.app, { url: '/' });
+      assert.equal(docs.body.rateLimiting.burst, '4 requests per 10 seconds');
+      assert.equal(docs.body.caching.ttl, '1 second');
+      assert.equal(docs.body.config.effective.dbMaxConcurrency, 4, 'restart-only changes are not reported as effective');
+
+      await assert.rejects(instance.reconfigure({ rateLimitMaxRequests: -1 }), ConfigError);
+      assert.equal(instance.settings.rateLimitMaxRequests, 10);
+    } finally {
+      await instance.close();
+    }
+  });
+});
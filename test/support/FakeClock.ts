@@ -0,0 +1,80 @@
+import { Clock, Timer } from '../../src/types';
+
+interface ScheduledTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+  intervalMs: number | null;
+}
+
+// Lets callbacks and promise chains that are ready run to completion,
+// including process.nextTick work
+export function settle(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+// Clock whose time only moves when a test calls advance(). Timers fire in
+// order of due time, and pending promise work settles after each one, so a
+// chain like "sleep 200ms, then read the repository" runs as it would for real.
+export class FakeClock implements Clock {
+  private current: number;
+  private nextId: number = 0;
+  private readonly timers: Map<number, ScheduledTimer> = new Map();
+
+  constructor(start: number = Date.UTC(2024, 0, 1)) {
+    this.current = start;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number): Timer {
+    return this.schedule(callback, ms, null);
+  }
+
+  setInterval(callback: () => void, ms: number): Timer {
+    return this.schedule(callback, ms, Math.max(1, ms));
+  }
+
+  // Timers still waiting to fire (intervals count until cancelled)
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+    await settle();
+
+    for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+      this.current = Math.max(this.current, timer.at);
+      if (timer.intervalMs === null) {
+        this.timers.delete(timer.id);
+      } else {
+        timer.at += timer.intervalMs;
+      }
+      timer.callback();
+      await settle();
+    }
+
+    this.current = target;
+    await settle();
+  }
+
+  private schedule(callback: () => void, ms: number, intervalMs: number | null): Timer {
+    const id = this.nextId++;
+    this.timers.set(id, { id, at: this.current + Math.max(0, ms), callback, intervalMs });
+    return { cancel: () => this.timers.delete(id) };
+  }
+
+  // Earliest timer due by `target`; ties fire in the order they were set
+  private nextDue(target: number): ScheduledTimer | undefined {
+    let next: ScheduledTimer | undefined;
+    for (const timer of this.timers.values()) {
+      if (timer.at <= target && (!next || timer.at < next.at || (timer.at === next.at && timer.id < next.id))) {
+        next = timer;
+      }
+    }
+    return next;
+  }
+}
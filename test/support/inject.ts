@@ -0,0 +1,88 @@
+import { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { Socket } from 'net';
+import { Duplex } from 'stream';
+
+type RequestListener = (req: IncomingMessage, res: ServerResponse) => void;
+
+export interface InjectOptions {
+  method?: string;
+  url: string;
+  headers?: Record<string, string>;
+  // Sent as JSON
+  body?: unknown;
+  // Socket peer address, as a client or proxy would appear to the app
+  remoteAddress?: string;
+}
+
+export interface InjectResponse {
+  status: number;
+  headers: OutgoingHttpHeaders;
+  text: string;
+  // Parsed JSON body, or undefined when the body isn't JSON
+  body: any;
+}
+
+// Runs one request through an Express app (or any request listener) in
+// process. No port is bound: the request and response sit on an in-memory
+// socket that records what the app writes.
+export function inject(app: RequestListener, options: InjectOptions): Promise<InjectResponse> {
+  return new Promise((resolve, reject) => {
+    const written: Buffer[] = [];
+    const socket = new Duplex({
+      read() {},
+      write(chunk: Buffer, _encoding, callback) {
+        written.push(chunk);
+        callback();
+      }
+    });
+    Object.defineProperty(socket, 'remoteAddress', { value: options.remoteAddress ?? '127.0.0.1' });
+
+    const req = new IncomingMessage(socket as Socket);
+    req.method = options.method ?? 'GET';
+    req.url = options.url;
+    const payload = options.body === undefined ? null : Buffer.from(JSON.stringify(options.body));
+    req.headers = {
+      host: 'localhost',
+      ...(payload ? { 'content-type': 'application/json', 'content-length': String(payload.length) } : {}),
+      ...Object.fromEntries(Object.entries(options.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value]))
+    };
+    // The whole body is already here; without `complete` the request counts
+    // as aborted once read, and Node destroys the socket under the response
+    req.complete = true;
+    if (payload) {
+      req.push(payload);
+    }
+    req.push(null);
+
+    const res = new ServerResponse(req);
+    res.assignSocket(socket as Socket);
+    res.on('finish', () => {
+      const raw = Buffer.concat(written);
+      const bodyStart = raw.indexOf('\r\n\r\n') + 4;
+      const chunked = /^transfer-encoding:\s*chunked/im.test(raw.subarray(0, bodyStart).toString('latin1'));
+      const text = (chunked ? dechunk(raw.subarray(bodyStart)) : raw.subarray(bodyStart)).toString('utf8');
+      let body: unknown;
+      try {
+        body = text ? JSON.parse(text) : undefined;
+      } catch {
+        body = undefined;
+      }
+      resolve({ status: res.statusCode, headers: res.getHeaders(), text, body });
+    });
+    res.on('error', reject);
+
+    app(req, res);
+  });
+}
+
+function dechunk(data: Buffer): Buffer {
+  const parts: Buffer[] = [];
+  let offset = 0;
+  for (;;) {
+    const lineEnd = data.indexOf('\r\n', offset);
+    const size = parseInt(data.subarray(offset, lineEnd).toString('latin1'), 16);
+    if (!size) return Buffer.concat(parts);
+    parts.push(data.subarray(lineEnd + 2, lineEnd + 2 + size));
+    offset = lineEnd + 2 + size + 2;
+  }
+}
@@ -0,0 +1,35 @@
+import { RateLimitStore } from '../../src/types';
+import { MemoryRateLimitStore } from '../../src/middleware/stores/MemoryRateLimitStore';
+import { RedisRateLimitStore } from '../../src/middleware/stores/RedisRateLimitStore';
+import { RespServer } from '../../src/cache/resp/RespServer';
+import { RespClient } from '../../src/cache/resp/RespClient';
+import { FakeClock } from './FakeClock';
+
+export interface RateLimitStoreFixture {
+  store: RateLimitStore;
+  clock: FakeClock;
+  teardown(): Promise<void>;
+}
+
+// Every RateLimitStore implementation, each on its own fake clock. The RESP
+// store runs against the in-process server sharing that clock.
+export const RATE_LIMIT_STORES: Record<string, () => Promise<RateLimitStoreFixture>> = {
+  memory: async () => {
+    const clock = new FakeClock();
+    const store = new MemoryRateLimitStore(clock);
+    return { store, clock, teardown: async () => store.destroy() };
+  },
+  resp: async () => {
+    const clock = new FakeClock();
+    const server = new RespServer(clock);
+    const store = new RedisRateLimitStore(new RespClient(await server.listen()), 'ratelimit:', 1000, clock);
+    return {
+      store,
+      clock,
+      teardown: async () => {
+        await store.destroy();
+        await server.close();
+      }
+    };
+  }
+};
@@ -0,0 +1,28 @@
+import net from 'net';
+import { AddressInfo } from 'net';
+
+export interface SilentServer {
+  // redis:// URL for RespClient
+  url: string;
+  close(): Promise<void>;
+}
+
+// Accepts connections and reads commands but never replies, like a Redis
+// server stuck on a slow script or behind a dead proxy
+export async function listenSilently(): Promise<SilentServer> {
+  const sockets: Set<net.Socket> = new Set();
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('data', () => {});
+    socket.on('close', () => sockets.delete(socket));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+
+  return {
+    url: `redis://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => new Promise(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    })
+  };
+}
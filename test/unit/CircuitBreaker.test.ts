@@ -0,0 +1,98 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker } from '../../src/services/CircuitBreaker';
+import { CircuitOpenError } from '../../src/services/errors';
+import { CircuitState } from '../../src/types';
+import { FakeClock } from '../support/FakeClock';
+
+const fail = async (): Promise<never> => {
+  throw new Error('boom');
+};
+const succeed = async () => 'ok';
+
+describe('CircuitBreaker', () => {
+  let clock: FakeClock;
+  let breaker: CircuitBreaker;
+  let transitions: string[];
+
+  // Opens after 3 consecutive failures, half-open after 1s
+  beforeEach(() => {
+    clock = new FakeClock();
+    breaker = new CircuitBreaker('test', 3, 1000, 1, clock);
+    transitions = [];
+    breaker.onStateChange((state: CircuitState, previous: CircuitState) => transitions.push(`${previous}->${state}`));
+  });
+
+  const failTimes = async (times: number) => {
+    for (let i = 0; i < times; i++) {
+      await assert.rejects(breaker.execute(fail), /boom/);
+    }
+  };
+
+  it('opens after consecutive failures and fails fast while open', async () => {
+    await failTimes(3);
+    assert.equal(breaker.getStatus().state, 'open');
+
+    await assert.rejects(breaker.execute(succeed), (error: unknown) =>
+      error instanceof CircuitOpenError && error.retryAfterMs === 1000);
+    assert.deepEqual(breaker.getStatus(), {
+      name: 'test',
+      state: 'open',
+      consecutiveFailures: 3,
+      failureThreshold: 3,
+      openedAt: clock.now(),
+      retryAt: clock.now() + 1000,
+      totalFailures: 3,
+      rejectedCalls: 1
+    });
+  });
+
+  it('only counts consecutive failures', async () => {
+    await failTimes(2);
+    await breaker.execute(succeed);
+    await failTimes(2);
+
+    assert.equal(breaker.getStatus().state, 'closed');
+    assert.equal(breaker.getStatus().totalFailures, 4);
+  });
+
+  it('closes again after a successful trial call', async () => {
+    await failTimes(3);
+    await clock.advance(1000);
+
+    assert.equal(await breaker.execute(succeed), 'ok');
+    assert.deepEqual(transitions, ['closed->open', 'open->half-open', 'half-open->closed']);
+  });
+
+  it('reopens when the trial call fails', async () => {
+    await failTimes(3);
+    await clock.advance(1000);
+    await failTimes(1);
+
+    assert.equal(breaker.getStatus().state, 'open');
+    assert.equal(breaker.getStatus().retryAt, clock.now() + 1000);
+  });
+
+  it('lets only halfOpenMaxCalls trial calls through at once', async () => {
+    await failTimes(3);
+    await clock.advance(1000);
+
+    let finishTrial: (value: string) => void = () => {};
+    const trial = breaker.execute(() => new Promise<string>(resolve => {
+      finishTrial = resolve;
+    }));
+    assert.throws(() => breaker.checkAllowed(), CircuitOpenError);
+
+    finishTrial('ok');
+    assert.equal(await trial, 'ok');
+    assert.doesNotThrow(() => breaker.checkAllowed());
+  });
+
+  it('keeps notifying when a listener throws', async () => {
+    breaker.onStateChange(() => {
+      throw new Error('listener failed');
+    });
+    await failTimes(3);
+    assert.deepEqual(transitions, ['closed->open']);
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatabaseService } from '../../src/services/DatabaseService';
+import { CircuitBreaker } from '../../src/services/CircuitBreaker';
+import { FixedLimit } from '../../src/services/concurrency';
+import {
+  AbortError,
+  CircuitOpenError,
+  NotFoundError,
+  QueueFullError,
+  TimeoutError,
+  UnavailableError
+} from '../../src/services/errors';
+import { InMemoryUserRepository } from '../../src/repositories/InMemoryUserRepository';
+import { configureLogging, jsonSink } from '../../src/logging/logger';
+import { runWithLogContext } from '../../src/logging/context';
+import { LogRecord, QueueJobSettled, User } from '../../src/types';
+import { FakeClock, settle } from '../support/FakeClock';
+
+// Records the ids of every read, and can be switched to fail
+class RecordingRepository extends InMemoryUserRepository {
+  readonly reads: number[][] = [];
+  failing: boolean = false;
+
+  override async findByIds(ids: number[]): Promise<User[]> {
+    this.reads.push([...ids]);
+    if (this.failing) {
+      throw new Error('connection refused');
+    }
+    return super.findByIds(ids);
+  }
+}
+
+// Lets a test reject a promise before asserting on it without tripping the
+// unhandled rejection check
+function pending<T>(promise: Promise<T>): Promise<T> {
+  promise.catch(() => {});
+  return promise;
+}
+
+describe('DatabaseService', () => {
+  let clock: FakeClock;
+  let repository: RecordingRepository;
+  let service: DatabaseService;
+  let settled: QueueJobSettled[];
+
+  const createService = (maxQueueLength: number = 100, timeoutMs: number = 5000) => {
+    const breaker = new CircuitBreaker('database', 3, 10000, 1, clock);
+    const created = new DatabaseService(repository, 100, new FixedLimit(1), timeoutMs, maxQueueLength, breaker,
+      { attempts: 2, baseDelayMs: 10, maxDelayMs: 10 }, clock);
+    created.onJobSettled(event => settled.push(event));
+    return created;
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    repository = new RecordingRepository();
+    settled = [];
+    service = createService();
+  });
+
+  afterEach(async () => {
+    await service.destroy();
+  });
+
+  it('reads the ids requested in one tick with a single job', async () => {
+    const users = Promise.all([service.getUserById(1), service.getUserById(2), service.getUserById(1)]);
+    await clock.advance(200);
+
+    assert.deepEqual((await users).map(user => user.id), [1, 2, 1]);
+    assert.deepEqual(repository.reads, [[1, 2]]);
+    assert.equal(settled[0]?.batchSize, 3);
+  });
+
+  it('logs each job with the requests it serves', async () => {
+    const records: LogRecord[] = [];
+    configureLogging({ level: 'debug', sink: record => records.push(record) });
+    repository.failing = true;
+
+    try {
+      const first = runWithLogContext({ requestId: 'req-1' }, () => pending(service.getUserById(1)));
+      const second = runWithLogContext({ requestId: 'req-2' }, () => pending(service.getUserById(1)));
+      await clock.advance(200);
+      await clock.advance(10);
+      await assert.rejects(first, UnavailableError);
+      await assert.rejects(second, UnavailableError);
+    } finally {
+      configureLogging({ level: 'info', sink: jsonSink });
+    }
+
+    const jobId = settled[0]?.jobId;
+    const find = (msg: string) => records.find(record => record.msg === msg);
+    assert.deepEqual([find('Added to job')?.requestId, find('Added to job')?.jobId], ['req-1', jobId]);
+    assert.deepEqual([find('Waiting on a pending read')?.requestId, find('Waiting on a pending read')?.jobId], ['req-2', jobId]);
+
+    // Retries run in the job's context, not the request that queued it
+    const retry = find('Attempt failed, retrying');
+    assert.equal(retry?.jobId, jobId);
+    assert.deepEqual(retry?.requestIds, ['req-1', 'req-2']);
+    assert.equal(retry?.requestId, undefined);
+
+    const rejected = find('Job rejected');
+    assert.equal(rejected?.level, 'warn');
+    assert.deepEqual(rejected?.requestIds, ['req-1', 'req-2']);
+  });
+
+  it('answers only after the simulated latency', async () => {
+    let done = false;
+    const user = service.getUserById(1).then(result => {
+      done = true;
+      return result;
+    });
+
+    await clock.advance(199);
+    assert.equal(done, false);
+    await clock.advance(1);
+    assert.equal((await user).name, 'John Doe');
+  });
+
+  it('rejects missing users with a NotFoundError, per id in a batch', async () => {
+    const results = service.getUsersByIds([1, 99]);
+    await clock.advance(200);
+
+    const [found, missing] = await results;
+    assert.equal((found as User).id, 1);
+    assert.ok(missing instanceof NotFoundError);
+  });
+
+  it('times out requests whose job has not settled by the deadline', async () => {
+    // The first job holds the only slot; the second waits behind it
+    const first = pending(service.getUserById(1));
+    await settle();
+    const second = pending(service.getUserById(2, { timeoutMs: 100 }));
+
+    await clock.advance(100);
+    await assert.rejects(second, TimeoutError);
+    await clock.advance(100);
+    assert.equal((await first).id, 1);
+    assert.equal(service.getQueueStats().timedOutRequests, 1);
+    assert.deepEqual(repository.reads, [[1]], 'the abandoned job never ran');
+  });
+
+  it('cancels a running job once every caller has aborted', async () => {
+    const controller = new AbortController();
+    const user = pending(service.getUserById(1, { signal: controller.signal }));
+    await settle();
+
+    controller.abort();
+    await assert.rejects(user, AbortError);
+    await clock.advance(200);
+    assert.deepEqual(settled.map(event => event.outcome), ['cancelled']);
+    assert.deepEqual(repository.reads, []);
+  });
+
+  it('cancels a job promoted to interactive while it is still filling', async () => {
+    const background = new AbortController();
+    const interactive = new AbortController();
+    const first = pending(service.getUserById(1, { priority: 'background', signal: background.signal }));
+    const second = pending(service.getUserById(1, { signal: interactive.signal }));
+
+    background.abort();
+    interactive.abort();
+    assert.deepEqual(settled.map(event => event.outcome), ['cancelled']);
+    await assert.rejects(first, AbortError);
+    await assert.rejects(second, AbortError);
+
+    // The cancelled job doesn't hold the only concurrency slot
+    const next = service.getUserById(2);
+    await settle();
+    await clock.advance(200);
+    assert.equal((await next).id, 2);
+    assert.deepEqual(repository.reads, [[2]]);
+    assert.equal(settled.length, 2);
+  });
+
+  it('sheds requests with a QueueFullError when the queue is full', async () => {
+    await service.destroy();
+    service = createService(1);
+
+    const running = pending(service.getUserById(1));
+    await settle();
+    const queued = pending(service.getUserById(2));
+    await settle();
+    const shed = pending(service.getUserById(3));
+
+    await assert.rejects(shed, (error: unknown) => error instanceof QueueFullError && (error.retryAfterMs ?? 0) >= 1000);
+    assert.deepEqual(service.getQueueStats().shedRequests, { interactive: 1, background: 0 });
+
+    await clock.advance(400);
+    assert.equal((await running).id, 1);
+    assert.equal((await queued).id, 2);
+  });
+
+  it('runs interactive jobs before background ones', async () => {
+    const first = service.getUserById(1);
+    await settle();
+    const background = service.getUserById(2, { priority: 'background' });
+    await settle();
+    const interactive = service.getUserById(3);
+    await settle();
+
+    await clock.advance(600);
+    await Promise.all([first, background, interactive]);
+    assert.deepEqual(repository.reads, [[1], [3], [2]]);
+  });
+
+  it('retries failed reads, opens the circuit breaker and recovers after the reset timeout', async () => {
+    repository.failing = true;
+
+    // Two attempts per request; the third failure opens the breaker
+    const first = pending(service.getUserById(1));
+    await clock.advance(250);
+    await assert.rejects(first, (error: unknown) => error instanceof UnavailableError && /connection refused/.test(error.message));
+    assert.equal(repository.reads.length, 2);
+
+    const second = pending(service.getUserById(1));
+    await clock.advance(250);
+    await assert.rejects(second, CircuitOpenError);
+    assert.equal(repository.reads.length, 3, 'no retry once the breaker opened');
+    assert.equal(service.getCircuitBreakerStatus().state, 'open');
+
+    // Open: fails fast without queueing
+    await assert.rejects(service.getUserById(1), CircuitOpenError);
+
+    repository.failing = false;
+    await clock.advance(10000);
+    const recovered = service.getUserById(1);
+    await clock.advance(200);
+    assert.equal((await recovered).id, 1);
+    assert.equal(service.getCircuitBreakerStatus().state, 'closed');
+  });
+
+  it('creates, updates and deletes users after the write latency', async () => {
+    const created = service.createUser('Ada', 'ada@example.com');
+    await clock.advance(100);
+    const user = await created;
+    assert.equal(user.id, 4);
+
+    const updated = service.updateUser(user.id, { name: 'Ada L.' });
+    await clock.advance(100);
+    assert.equal((await updated)?.name, 'Ada L.');
+
+    const missing = service.updateUser(99, { name: 'Nobody' });
+    await clock.advance(100);
+    assert.equal(await missing, null);
+
+    const deleted = service.deleteUser(user.id);
+    await clock.advance(100);
+    assert.equal(await deleted, true);
+  });
+
+  it('rejects waiting requests on destroy', async () => {
+    const user = pending(service.getUserById(1));
+    await service.destroy();
+
+    await assert.rejects(user, UnavailableError);
+    await assert.rejects(service.getUserById(1), /shut down/);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { LRUCache } from '../../src/cache/LRUCache';
+import { CacheEvent } from '../../src/types';
+import { FakeClock } from '../support/FakeClock';
+
+describe('LRUCache', () => {
+  let clock: FakeClock;
+  let cache: LRUCache<string>;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    // 3 entries, 1s TTL, stale for 1s more, usable on reload failure for 5s
+    cache = new LRUCache<string>(3, 1000, 1000, 5000, 0, undefined, 'lru', clock);
+  });
+
+  afterEach(() => {
+    cache.destroy();
+  });
+
+  it('moves entries from fresh to stale to expired as the clock advances', async () => {
+    cache.set('a', 'A');
+    assert.deepEqual(cache.getEntry('a'), { value: 'A', status: 'fresh', age: 0, freshFor: 1000 });
+
+    await clock.advance(400);
+    assert.equal(cache.getEntry('a')?.freshFor, 600);
+
+    await clock.advance(1100);
+    assert.equal(cache.getEntry('a')?.status, 'stale');
+    assert.equal(cache.getEntry('a')?.freshFor, 0);
+    assert.equal(cache.get('a'), null, 'get() only returns fresh values');
+
+    await clock.advance(1000);
+    assert.equal(cache.getEntry('a')?.status, 'expired');
+
+    await clock.advance(5000);
+    assert.equal(cache.getEntry('a'), null);
+    assert.equal(cache.size(), 0);
+  });
+
+  it('honours per-entry TTLs and sliding expiry', async () => {
+    cache.set('short', 'S', { ttlMs: 100 });
+    cache.set('sliding', 'L', { sliding: true });
+
+    await clock.advance(800);
+    assert.equal(cache.get('short'), null);
+    assert.equal(cache.get('sliding'), 'L');
+
+    // Each fresh read pushed the expiry back by the full TTL
+    await clock.advance(800);
+    assert.equal(cache.get('sliding'), 'L');
+  });
+
+  it('rejects invalid TTLs and jitter', () => {
+    assert.throws(() => cache.set('a', 'A', { ttlMs: 0 }), /TTL must be a positive number/);
+    assert.throws(() => cache.set('a', 'A', { jitter: 2 }), /jitter must be between 0 and 1/);
+  });
+
+  it('applies a new default TTL to entries stored from then on', async () => {
+    cache.set('before', 'B');
+    cache.setTtl(5000);
+    cache.set('after', 'A');
+
+    await clock.advance(1500);
+    assert.equal(cache.get('before'), null);
+    assert.equal(cache.get('after'), 'A');
+    assert.throws(() => cache.setTtl(-1), /TTL must be a positive number/);
+  });
+
+  it('evicts the least recently used entry at capacity', () => {
+    const evicted: string[] = [];
+    cache.on('evict', event => evicted.push(`${event.key}:${event.reason}`));
+
+    cache.set('a', 'A');
+    cache.set('b', 'B');
+    cache.set('c', 'C');
+    cache.get('a');
+    cache.set('d', 'D');
+
+    assert.deepEqual(evicted, ['b:capacity']);
+    assert.deepEqual(cache.keys().sort(), ['a', 'c', 'd']);
+  });
+
+  it('evicts by the configured policy', () => {
+    const fifo = new LRUCache<string>(3, 1000, 0, 0, 0, undefined, 'fifo', clock);
+    fifo.set('a', 'A');
+    fifo.set('b', 'B');
+    fifo.set('c', 'C');
+    fifo.get('a');
+    fifo.set('d', 'D');
+
+    assert.deepEqual(fifo.keys().sort(), ['b', 'c', 'd']);
+    fifo.destroy();
+  });
+
+  it('keeps the byte budget and refuses values that can never fit', () => {
+    const small = new LRUCache<string>(100, 1000, 0, 0, 10, value => value.length, 'lru', clock);
+    small.set('a', 'aaaa');
+    small.set('b', 'bbbb');
+    small.set('c', 'cccc');
+
+    assert.deepEqual(small.keys().sort(), ['b', 'c']);
+    assert.equal(small.getStats().currentBytes, 8);
+    assert.throws(() => small.set('huge', 'x'.repeat(11)), /over the 10 byte budget/);
+    small.destroy();
+  });
+
+  it('deletes by glob pattern and by tag', () => {
+    cache.set('user:1', 'one', { tags: ['users'] });
+    cache.set('user:2', 'two', { tags: ['users'] });
+    cache.set('post:1', 'post');
+
+    assert.equal(cache.deleteByPattern('user:*'), 2);
+    assert.deepEqual(cache.keys(), ['post:1']);
+
+    cache.set('user:3', 'three', { tags: ['users'] });
+    assert.equal(cache.deleteByTag('users'), 1);
+    assert.equal(cache.deleteByTag('users'), 0);
+  });
+
+  it('emits an event for every read, write and removal', async () => {
+    // No stale windows: the entry is gone as soon as its TTL is up
+    const plain = new LRUCache<string>(3, 1000, 0, 0, 0, undefined, 'lru', clock);
+    const events: CacheEvent['type'][] = [];
+    const unsubscribe = plain.subscribe(event => events.push(event.type));
+    plain.set('a', 'A', { ttlMs: 10 });
+    plain.get('a');
+    plain.get('b');
+    plain.set('b', 'B');
+    plain.delete('b');
+
+    await clock.advance(50);
+    plain.get('a');
+    plain.clear();
+    unsubscribe();
+    plain.set('c', 'C');
+    plain.destroy();
+
+    assert.deepEqual(events, ['set', 'hit', 'miss', 'set', 'evict', 'expire', 'miss', 'clear']);
+  });
+
+  it('drops expired entries from the background cleanup', async () => {
+    const events: CacheEvent['type'][] = [];
+    cache.subscribe(event => events.push(event.type));
+    cache.set('a', 'A', { ttlMs: 10 });
+
+    // Cleanup runs every 30s; by then the entry is past every window
+    await clock.advance(30000);
+    assert.equal(cache.size(), 0);
+    assert.deepEqual(events, ['set', 'expire']);
+  });
+
+  it('stops its cleanup timer on destroy', () => {
+    assert.equal(clock.pendingTimers(), 1);
+    cache.destroy();
+    assert.equal(clock.pendingTimers(), 0);
+  });
+
+  it('tracks hits, stale hits and misses', async () => {
+    cache.set('a', 'A');
+    cache.get('a');
+    cache.get('missing');
+    await clock.advance(1500);
+    cache.getEntry('a');
+
+    const stats = cache.getStats();
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.staleHits, 1);
+    assert.equal(stats.misses, 1);
+    assert.equal(stats.totalRequests, 3);
+  });
+});
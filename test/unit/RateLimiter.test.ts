@@ -0,0 +1,289 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express, { Express, Request } from 'express';
+import { RateLimiter } from '../../src/middleware/rateLimiter';
+import { RateLimitPolicyEngine, apiKeyTierResolver, compilePathPattern } from '../../src/middleware/rateLimitPolicy';
+import { MemoryRateLimitStore } from '../../src/middleware/stores/MemoryRateLimitStore';
+import { RedisRateLimitStore } from '../../src/middleware/stores/RedisRateLimitStore';
+import { RespClient } from '../../src/cache/resp/RespClient';
+import { ipExtractor } from '../../src/middleware/clientIdentity';
+import { RateLimitHeaderMode, RateLimitOutcome, RateLimitStore } from '../../src/types';
+import { FakeClock } from '../support/FakeClock';
+import { inject } from '../support/inject';
+import { listenSilently } from '../support/silentServer';
+
+// Just what the policy engine reads
+function fakeRequest(method: string, path: string, headers: Record<string, string> = {}): Request {
+  return {
+    method,
+    baseUrl: '',
+    path,
+    get: (header: string) => headers[header.toLowerCase()]
+  } as unknown as Request;
+}
+
+describe('RateLimiter', () => {
+  let clock: FakeClock;
+  let store: MemoryRateLimitStore;
+  let limiter: RateLimiter;
+  let app: Express;
+
+  // 4 requests per 60s window, at most 2 per 1s burst
+  const createLimiter = (
+    policies: RateLimitPolicyEngine = new RateLimitPolicyEngine(),
+    headerMode: RateLimitHeaderMode = 'legacy',
+    limiterStore: RateLimitStore = store
+  ) => new RateLimiter(4, 60000, 2, 1000, limiterStore, 'fixed-window', policies, ipExtractor(), headerMode, clock);
+
+  const mount = (rateLimiter: RateLimiter): Express => {
+    const server = express();
+    server.use(rateLimiter.middleware());
+    server.all('*', (req, res) => {
+      res.json({ ok: true });
+    });
+    return server;
+  };
+
+  const request = (remoteAddress: string = '198.51.100.1', path: string = '/') =>
+    inject(app, { url: path, remoteAddress });
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    store = new MemoryRateLimitStore(clock);
+    limiter = createLimiter();
+    app = mount(limiter);
+  });
+
+  afterEach(async () => {
+    await limiter.destroy();
+  });
+
+  it('sets the legacy X-RateLimit headers', async () => {
+    const response = await request();
+
+    assert.equal(response.status, 200);
+    assert.equal(response.headers['x-ratelimit-limit'], '4');
+    assert.equal(response.headers['x-ratelimit-remaining'], '3');
+    assert.equal(response.headers['x-ratelimit-reset'], String(Math.ceil((clock.now() + 60000) / 1000)));
+    assert.equal(response.headers['x-ratelimit-burst-limit'], '2');
+    assert.equal(response.headers['x-ratelimit-burst-remaining'], '1');
+    assert.equal(response.headers['x-ratelimit-policy'], 'default');
+  });
+
+  it('sets the IETF draft fields in draft mode', async () => {
+    await limiter.destroy();
+    limiter = createLimiter(undefined, 'draft');
+    app = mount(limiter);
+
+    const response = await request();
+    assert.equal(response.headers['ratelimit-policy'], '"default";q=4;w=60, "default-burst";q=2;w=1');
+    assert.equal(response.headers['ratelimit'], '"default";r=3;t=60, "default-burst";r=1;t=1');
+    assert.equal(response.headers['x-ratelimit-limit'], undefined);
+  });
+
+  it('rejects a burst with 429 and Retry-After, then recovers when the burst window passes', async () => {
+    await request();
+    await request();
+    const rejected = await request();
+
+    assert.equal(rejected.status, 429);
+    assert.equal(rejected.headers['retry-after'], '1');
+    assert.match(rejected.body.error, /Burst limit of 2 requests per 1 seconds exceeded/);
+    // The rejected request gave its window slot back
+    assert.equal(rejected.headers['x-ratelimit-remaining'], '2');
+
+    await clock.advance(1000);
+    assert.equal((await request()).status, 200);
+  });
+
+  it('enforces the window across bursts and resets with it', async () => {
+    for (let i = 0; i < 2; i++) {
+      await request();
+      await request();
+      await clock.advance(1000);
+    }
+
+    const rejected = await request();
+    assert.equal(rejected.status, 429);
+    assert.match(rejected.body.error, /Rate limit of 4 requests per 60 seconds exceeded/);
+    assert.equal(rejected.headers['retry-after'], '58');
+
+    await clock.advance(58000);
+    assert.equal((await request()).status, 200);
+  });
+
+  it('judges existing counters against new limits', async () => {
+    await request();
+    await request();
+
+    limiter.setLimits(4, 60000, 3, 1000);
+    const allowed = await request();
+    assert.equal(allowed.status, 200);
+    assert.equal(allowed.headers['x-ratelimit-burst-limit'], '3');
+    assert.equal(allowed.headers['x-ratelimit-burst-remaining'], '0');
+    assert.equal((await request()).status, 429);
+  });
+
+  it('keeps separate counters per client', async () => {
+    await request('198.51.100.1');
+    await request('198.51.100.1');
+
+    assert.equal((await request('198.51.100.1')).status, 429);
+    assert.equal((await request('198.51.100.2')).status, 200);
+  });
+
+  it('applies per-route costs and skips exempt routes', async () => {
+    await limiter.destroy();
+    limiter = createLimiter(new RateLimitPolicyEngine([
+      { name: 'health', path: '/health', exempt: true },
+      { name: 'writes', methods: ['GET'], path: '/expensive', cost: 2 }
+    ]));
+    app = mount(limiter);
+
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await request(undefined, '/health')).status, 200);
+    }
+    const expensive = await request(undefined, '/expensive');
+    assert.equal(expensive.headers['x-ratelimit-policy'], 'writes');
+    assert.equal(expensive.headers['x-ratelimit-burst-remaining'], '0');
+    assert.equal((await request(undefined, '/expensive')).status, 429);
+  });
+
+  it('gives each tier its own limits and counters', async () => {
+    await limiter.destroy();
+    limiter = createLimiter(new RateLimitPolicyEngine([
+      { name: 'api-key', tiers: ['api-key'], maxRequests: 100, burstCapacity: 20 }
+    ], apiKeyTierResolver({ 'test-key': 'api-key' })));
+    app = mount(limiter);
+
+    await request();
+    await request();
+    assert.equal((await request()).status, 429);
+
+    const keyed = await inject(app, { url: '/', remoteAddress: '198.51.100.1', headers: { 'X-API-Key': 'test-key' } });
+    assert.equal(keyed.status, 200);
+    assert.equal(keyed.headers['x-ratelimit-policy'], 'api-key');
+    assert.equal(keyed.headers['x-ratelimit-limit'], '100');
+    assert.equal(keyed.headers['x-ratelimit-burst-remaining'], '19');
+  });
+
+  it('blocks denied clients and lets allowed clients through until the entry expires', async () => {
+    await limiter.setAccess('ip:198.51.100.1', 'deny', 5000, 'abuse');
+    await limiter.setAccess('ip:198.51.100.2', 'allow', 5000);
+
+    const denied = await request('198.51.100.1');
+    assert.equal(denied.status, 403);
+    assert.equal(denied.body.retryAfter, 5);
+
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await request('198.51.100.2')).headers['x-ratelimit-policy'], 'allowlist');
+    }
+
+    await clock.advance(5000);
+    assert.equal((await request('198.51.100.1')).status, 200);
+    assert.deepEqual(await limiter.listAccess(), []);
+  });
+
+  it('fails open when the store is unavailable', async () => {
+    const broken = new MemoryRateLimitStore(clock);
+    broken.increment = () => {
+      throw new Error('store down');
+    };
+    await limiter.destroy();
+    limiter = createLimiter(undefined, 'legacy', broken);
+    app = mount(limiter);
+
+    const outcomes: RateLimitOutcome[] = [];
+    limiter.onOutcome(outcome => outcomes.push(outcome));
+
+    assert.equal((await request()).status, 200);
+    assert.deepEqual(outcomes.map(outcome => outcome.reason), ['store-unavailable']);
+  });
+
+  it('fails open when the Redis server stops replying', async () => {
+    const silent = await listenSilently();
+    await limiter.destroy();
+    limiter = createLimiter(undefined, 'legacy', new RedisRateLimitStore(new RespClient(silent.url, 50), 'ratelimit:', 1000, clock));
+    app = mount(limiter);
+
+    const outcomes: RateLimitOutcome[] = [];
+    limiter.onOutcome(outcome => outcomes.push(outcome));
+
+    try {
+      assert.equal((await request()).status, 200);
+      assert.deepEqual(outcomes.map(outcome => outcome.reason), ['store-unavailable']);
+    } finally {
+      await silent.close();
+    }
+  });
+
+  it('reports every decision to outcome listeners', async () => {
+    const reasons: string[] = [];
+    const unsubscribe = limiter.onOutcome(outcome => reasons.push(outcome.reason));
+
+    await request();
+    await request();
+    await request();
+    unsubscribe();
+    await request();
+
+    assert.deepEqual(reasons, ['within-limit', 'within-limit', 'burst']);
+  });
+
+  it('lists clients with their usage and resets them', async () => {
+    await request('198.51.100.1');
+    await request('198.51.100.2');
+
+    const clients = await limiter.listClients();
+    assert.deepEqual(clients.map(client => client.clientId).sort(), ['ip:198.51.100.1', 'ip:198.51.100.2']);
+    assert.equal(clients[0]?.window?.used, 1);
+
+    await limiter.reset('ip:198.51.100.1');
+    assert.deepEqual((await limiter.listClients()).map(client => client.clientId), ['ip:198.51.100.2']);
+
+    await limiter.reset();
+    assert.deepEqual(await limiter.listClients(), []);
+  });
+});
+
+describe('RateLimitPolicyEngine', () => {
+  const defaults = { window: { limit: 10, windowMs: 60000 }, burst: { limit: 5, windowMs: 10000 } };
+
+  it('rejects duplicate names and invalid costs', () => {
+    assert.throws(() => new RateLimitPolicyEngine([{ name: 'a' }, { name: 'a' }]), /Duplicate rate limit rule name/);
+    assert.throws(() => new RateLimitPolicyEngine([{ name: 'default' }]), /Duplicate rate limit rule name/);
+    assert.throws(() => new RateLimitPolicyEngine([{ name: 'a', cost: 0 }]), /positive integer cost/);
+  });
+
+  it('applies the first rule matching method, path and tier', () => {
+    const engine = new RateLimitPolicyEngine([
+      { name: 'internal', tiers: ['internal'], exempt: true },
+      { name: 'user-writes', methods: ['post'], path: '/users', cost: 2 },
+      { name: 'users', path: '/users/:id', maxRequests: 20 }
+    ], apiKeyTierResolver({ secret: 'internal' }));
+
+    assert.equal(engine.resolve(fakeRequest('POST', '/users'), defaults).cost, 2);
+    assert.equal(engine.resolve(fakeRequest('POST', '/users', { 'x-api-key': 'secret' }), defaults).name, 'internal');
+    assert.deepEqual(engine.resolve(fakeRequest('GET', '/users/7/'), defaults).window, { limit: 20, windowMs: 60000 });
+
+    const fallback = engine.resolve(fakeRequest('GET', '/users'), defaults);
+    assert.deepEqual([fallback.name, fallback.tier, fallback.cost], ['default', 'anonymous', 1]);
+  });
+
+  it('lists every non-exempt policy for resets', () => {
+    const engine = new RateLimitPolicyEngine([
+      { name: 'health', exempt: true },
+      { name: 'writes', cost: 2, maxRequests: 20 }
+    ]);
+
+    assert.deepEqual(engine.policies(defaults).map(policy => [policy.name, policy.window.limit]), [['writes', 20], ['default', 10]]);
+  });
+
+  it('compiles Express-style path patterns', () => {
+    assert.ok(compilePathPattern('/users/:id').test('/users/42'));
+    assert.ok(!compilePathPattern('/users/:id').test('/users/42/posts'));
+    assert.ok(compilePathPattern('/cache/*').test('/cache/user:1/extra'));
+    assert.ok(compilePathPattern('/a.b').test('/a.b/'));
+    assert.ok(!compilePathPattern('/a.b').test('/axb'));
+  });
+});
@@ -0,0 +1,232 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { RespServer } from '../../src/cache/resp/RespServer';
+import { RespClient } from '../../src/cache/resp/RespClient';
+import { COMPARE_AND_DELETE_SCRIPT } from '../../src/cache/resp/scripts';
+import { RedisCacheStore } from '../../src/cache/RedisCacheStore';
+import { FakeClock } from '../support/FakeClock';
+import { listenSilently } from '../support/silentServer';
+
+interface Item {
+  id: number;
+  createdAt?: Date | string;
+}
+
+// Runs against the in-process RESP server; the server and the store share a
+// fake clock, so key expiry and entry ages move together
+describe('RedisCacheStore', () => {
+  const clock = new FakeClock();
+  const server = new RespServer(clock);
+  let client: RespClient;
+  let store: RedisCacheStore<Item>;
+
+  before(async () => {
+    client = new RespClient(await server.listen());
+  });
+
+  after(async () => {
+    await client.quit();
+    await server.close();
+  });
+
+  beforeEach(async () => {
+    await client.command('FLUSHDB');
+    // 1s TTL, stale-while-revalidate 1s, stale-if-error 5s
+    store = new RedisCacheStore<Item>(client, 1000, 'cache:', 1000, 5000, clock);
+  });
+
+  it('round-trips values as JSON', async () => {
+    const createdAt = new Date('2024-01-01T00:00:00.000Z');
+    await store.set('item:1', { id: 1, createdAt });
+
+    // Dates come back as ISO strings, as they would over HTTP
+    assert.deepEqual(await store.get('item:1'), { id: 1, createdAt: createdAt.toISOString() });
+    assert.equal(await store.has('item:1'), true);
+    assert.equal(await store.get('item:2'), null);
+    assert.equal(await store.has('item:2'), false);
+  });
+
+  it('keeps keys under its prefix until its stale windows have passed', async () => {
+    await store.set('item:1', { id: 1 });
+
+    assert.equal(await client.command('EXISTS', 'cache:item:1'), 1);
+    assert.equal(await client.command('PTTL', 'cache:item:1'), 6000);
+  });
+
+  it('reports fresh, stale and expired entries from the key TTL', async () => {
+    await store.set('item:1', { id: 1 });
+    assert.equal((await store.getEntry('item:1'))?.status, 'fresh');
+    await clock.advance(400);
+    assert.equal((await store.getEntry('item:1'))?.freshFor, 600);
+
+    await clock.advance(1100);
+    assert.equal((await store.getEntry('item:1'))?.status, 'stale');
+    assert.equal((await store.getEntry('item:1'))?.age, 1500);
+    assert.equal((await store.getEntry('item:1'))?.freshFor, 0);
+
+    await clock.advance(1000);
+    assert.equal((await store.getEntry('item:1'))?.status, 'expired');
+
+    // The key itself is dropped by the server once past both windows
+    await clock.advance(5000);
+    assert.equal(await store.getEntry('item:1'), null);
+  });
+
+  it('keeps sliding entries fresh while they are read', async () => {
+    await store.set('item:1', { id: 1 }, { sliding: true });
+    await clock.advance(800);
+    assert.equal((await store.getEntry('item:1'))?.freshFor, 1000);
+    await clock.advance(800);
+    assert.equal((await store.getEntry('item:1'))?.status, 'fresh');
+  });
+
+  it('deletes keys', async () => {
+    await store.set('item:1', { id: 1 });
+
+    assert.equal(await store.delete('item:1'), true);
+    assert.equal(await store.delete('item:1'), false);
+    assert.equal(await store.get('item:1'), null);
+  });
+
+  it('deletes glob patterns and tags', async () => {
+    await store.set('user:1', { id: 1 }, { tags: ['users'] });
+    await store.set('user:2', { id: 2 }, { tags: ['users'] });
+    await store.set('post:1', { id: 1 });
+
+    assert.equal(await store.deleteByTag('users'), 2);
+    assert.deepEqual(await store.keys(), ['post:1']);
+
+    await store.set('user:3', { id: 3 });
+    await store.set('user:4', { id: 4 });
+    assert.deepEqual((await store.keys('user:*')).sort(), ['user:3', 'user:4']);
+    assert.equal(await store.deleteByPattern('user:*'), 2);
+    assert.deepEqual(await store.keys(), ['post:1']);
+  });
+
+  it('lists keys across SCAN pages', async () => {
+    const ids = Array.from({ length: 250 }, (_, index) => index);
+    await Promise.all(ids.map(id => store.set(`item:${id}`, { id })));
+
+    const keys = await store.keys();
+    assert.equal(keys.length, 250);
+    assert.deepEqual(new Set(keys), new Set(ids.map(id => `item:${id}`)));
+  });
+
+  it('escapes glob characters in the key prefix', async () => {
+    const odd = new RedisCacheStore<Item>(client, 1000, 'c*:', 0, 0, clock);
+    await odd.set('a', { id: 1 });
+    await store.set('a', { id: 2 });
+
+    assert.deepEqual(await odd.keys(), ['a']);
+  });
+
+  it('clears only its own prefix', async () => {
+    const other = new RedisCacheStore<Item>(client, 1000, 'other:', 0, 0, clock);
+    await other.set('a', { id: 1 });
+    await store.set('a', { id: 2 });
+
+    await store.clear();
+    assert.deepEqual(await store.keys(), []);
+    assert.deepEqual(await other.keys(), ['a']);
+  });
+
+  it('emits events for its own calls and counts hits and misses', async () => {
+    const events: string[] = [];
+    store.subscribe(event => events.push(event.type));
+
+    await store.set('a', { id: 1 });
+    await store.get('a');
+    await store.get('b');
+    await store.set('c', { id: 3 });
+    await store.delete('c');
+
+    assert.deepEqual(events, ['set', 'hit', 'miss', 'set', 'evict']);
+
+    const stats = await store.getStats();
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.misses, 1);
+    assert.equal(stats.totalRequests, 2);
+    assert.equal(stats.currentSize, 1);
+  });
+});
+
+describe('RespServer', () => {
+  const server = new RespServer();
+  let client: RespClient;
+
+  before(async () => {
+    client = new RespClient(await server.listen());
+  });
+
+  after(async () => {
+    await client.quit();
+    await server.close();
+  });
+
+  it('runs MULTI/EXEC transactions', async () => {
+    const replies = await client.transaction([['INCR', 'counter'], ['INCRBY', 'counter', 4], ['PEXPIRE', 'counter', 1000, 'NX']]);
+    assert.deepEqual(replies, [1, 5, 1]);
+  });
+
+  it('supports SET NX and XX', async () => {
+    assert.equal(await client.command('SET', 'nx', 'a', 'NX'), 'OK');
+    assert.equal(await client.command('SET', 'nx', 'b', 'NX'), null);
+    assert.equal(await client.command('SET', 'xx', 'a', 'XX'), null);
+    assert.equal(await client.command('GET', 'nx'), 'a');
+  });
+
+  it('keeps SCAN cursors valid when keys are deleted between pages', async () => {
+    await client.command('FLUSHDB');
+    for (let i = 0; i < 30; i++) {
+      await client.command('SET', `key:${i}`, i);
+    }
+
+    const seen: Set<string> = new Set();
+    let cursor = '0';
+    do {
+      const [next, keys] = await client.command('SCAN', cursor, 'COUNT', 10) as [string, string[]];
+      keys.forEach(key => seen.add(key));
+      if (keys.length > 0) {
+        await client.command('DEL', ...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+
+    assert.equal(seen.size, 30);
+    assert.equal(await client.command('DBSIZE'), 0);
+  });
+
+  it('runs the built-in EVAL scripts and refuses others', async () => {
+    await client.command('SET', 'lock', 'mine');
+    assert.equal(await client.command('EVAL', COMPARE_AND_DELETE_SCRIPT, 1, 'lock', 'theirs'), 0);
+    assert.equal(await client.command('GET', 'lock'), 'mine');
+    assert.equal(await client.command('EVAL', COMPARE_AND_DELETE_SCRIPT, 1, 'lock', 'mine'), 1);
+    assert.equal(await client.command('GET', 'lock'), null);
+
+    await assert.rejects(client.command('EVAL', 'return 1', 0), /only runs the scripts in/);
+  });
+
+  it('rejects unknown commands', async () => {
+    await assert.rejects(client.command('NOPE'), /unknown command 'NOPE'/);
+  });
+});
+
+describe('RespClient', () => {
+  it('rejects commands the server never answers, then reconnects', async () => {
+    const silent = await listenSilently();
+    const client = new RespClient(silent.url, 50);
+
+    try {
+      await assert.rejects(client.command('GET', 'a'), /GET timed out after 50ms/);
+      // The timed out connection was dropped; a fresh one times out on its own
+      await assert.rejects(client.command('GET', 'b'), /GET timed out after 50ms/);
+    } finally {
+      client.quit().catch(() => {});
+      await silent.close();
+    }
+  });
+
+  it('rejects invalid command timeouts', () => {
+    assert.throws(() => new RespClient(undefined, -1), /Command timeout must be a non-negative number/);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { LRUCache } from '../../src/cache/LRUCache';
+import { StaleWhileRevalidate } from '../../src/cache/StaleWhileRevalidate';
+import { FakeClock, settle } from '../support/FakeClock';
+
+describe('StaleWhileRevalidate', () => {
+  let clock: FakeClock;
+  let cache: LRUCache<string>;
+  let loader: StaleWhileRevalidate<string>;
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    // 1s TTL, stale-while-revalidate 1s, stale-if-error 5s
+    cache = new LRUCache<string>(100, 1000, 1000, 5000, 0, undefined, 'lru', clock);
+    loader = new StaleWhileRevalidate(cache);
+  });
+
+  afterEach(() => {
+    cache.destroy();
+  });
+
+  it('loads a miss inline and serves the cached value afterwards', async () => {
+    let loads = 0;
+    const load = async () => `value ${++loads}`;
+
+    assert.deepEqual(await loader.get('k', load), { value: 'value 1', cached: false, stale: false });
+    assert.deepEqual(await loader.get('k', load), { value: 'value 1', cached: true, stale: false });
+    assert.equal(loads, 1);
+  });
+
+  it('serves a stale entry at once and refreshes it once in the background', async () => {
+    cache.set('k', 'old');
+    await clock.advance(1500);
+
+    const contexts: boolean[] = [];
+    const load = async (context: { background: boolean }) => {
+      contexts.push(context.background);
+      return 'new';
+    };
+    const stale = { value: 'old', cached: true, stale: true };
+    assert.deepEqual(await Promise.all([loader.get('k', load), loader.get('k', load)]), [stale, stale]);
+    await settle();
+
+    assert.deepEqual(contexts, [true], 'one background refresh for both reads');
+    assert.equal(cache.get('k'), 'new');
+  });
+
+  it('serves an entry in its stale-if-error window when the reload fails', async () => {
+    cache.set('k', 'old');
+    await clock.advance(3000);
+
+    const result = await loader.get('k', async () => {
+      throw new Error('database down');
+    });
+    assert.deepEqual(result, { value: 'old', cached: true, stale: true });
+  });
+
+  it('propagates loader errors when nothing is cached', async () => {
+    await assert.rejects(loader.get('k', async () => {
+      throw new Error('database down');
+    }), /database down/);
+  });
+
+  it('loads every miss of a getMany() in one call and fails keys individually', async () => {
+    cache.set('a', 'cached a');
+    const calls: string[][] = [];
+
+    const results = await loader.getMany(['a', 'b', 'c'], async keys => {
+      calls.push(keys);
+      return keys.map(key => key === 'c' ? new Error('c not found') : `loaded ${key}`);
+    });
+
+    assert.deepEqual(calls, [['b', 'c']]);
+    assert.deepEqual(results[0], { value: 'cached a', cached: true, stale: false });
+    assert.deepEqual(results[1], { value: 'loaded b', cached: false, stale: false });
+    assert.ok(results[2] instanceof Error && results[2].message === 'c not found');
+    assert.equal(cache.get('b'), 'loaded b');
+  });
+
+  it("doesn't let a load that started before a write overwrite it", async () => {
+    let finishLoad: (value: string) => void = () => {};
+    const pending = loader.get('k', () => new Promise(resolve => {
+      finishLoad = resolve;
+    }));
+    await settle();
+
+    await loader.set('k', 'written');
+    finishLoad('loaded before the write');
+
+    assert.equal((await pending).value, 'loaded before the write');
+    assert.equal(cache.get('k'), 'written');
+  });
+
+  it('invalidates on delete()', async () => {
+    await loader.set('k', 'v');
+    assert.equal(await loader.delete('k'), true);
+    assert.equal(cache.get('k'), null);
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express, { Express } from 'express';
+import { LRUCache } from '../../src/cache/LRUCache';
+import { cacheMiddleware, CacheMiddlewareOptions, entityTag } from '../../src/middleware/cacheMiddleware';
+import { CachedResponse } from '../../src/types';
+import { FakeClock, settle } from '../support/FakeClock';
+import { inject, InjectOptions } from '../support/inject';
+
+describe('cacheMiddleware', () => {
+  let clock: FakeClock;
+  let cache: LRUCache<CachedResponse>;
+  let calls: number;
+
+  const createApp = (options: CacheMiddlewareOptions = {}): Express => {
+    const app = express();
+    app.use(express.json());
+    app.use(cacheMiddleware(cache, { ttlMs: 10000, ...options }, clock));
+    app.get('/items/:id', (req, res) => {
+      calls++;
+      if (req.params.id === 'missing') {
+        res.status(404).json({ error: 'not found' });
+        return;
+      }
+      res.json({ id: req.params.id, calls, language: req.get('accept-language') ?? null });
+    });
+    app.get('/large', (req, res) => {
+      calls++;
+      res.json({ calls, padding: 'x'.repeat(1024) });
+    });
+    app.get('/text', (req, res) => {
+      calls++;
+      res.type('text/plain').send(`call ${calls}`);
+    });
+    app.get('/private', (req, res) => {
+      calls++;
+      res.set('Cache-Control', 'private').json({ calls });
+    });
+    app.get('/versioned', (req, res) => {
+      calls++;
+      res.set({ ETag: '"v1"', 'Last-Modified': new Date(Date.UTC(2023, 0, 1)).toUTCString() }).json({ calls });
+    });
+    app.post('/items', (req, res) => {
+      calls++;
+      res.json({ calls });
+    });
+    return app;
+  };
+
+  // A request, then time for the store write to land
+  const request = async (app: Express, options: InjectOptions) => {
+    const response = await inject(app, options);
+    await settle();
+    return response;
+  };
+
+  beforeEach(() => {
+    clock = new FakeClock();
+    cache = new LRUCache<CachedResponse>(100, 60000, 0, 0, 0, undefined, 'lru', clock);
+    calls = 0;
+  });
+
+  afterEach(() => {
+    cache.destroy();
+  });
+
+  it('replays a cached response with max-age from its remaining TTL until it expires', async () => {
+    const app = createApp();
+    const miss = await request(app, { url: '/items/1' });
+    assert.equal(miss.headers['x-cache'], 'MISS');
+    assert.equal(miss.headers['cache-control'], 'max-age=10');
+
+    await clock.advance(3000);
+    const hit = await request(app, { url: '/items/1' });
+    assert.equal(hit.headers['x-cache'], 'HIT');
+    assert.equal(hit.headers['age'], '3');
+    assert.equal(hit.headers['cache-control'], 'max-age=7');
+    assert.match(String(hit.headers['content-type']), /^application\/json/);
+    assert.equal(hit.text, miss.text);
+
+    await clock.advance(7001);
+    assert.deepEqual((await request(app, { url: '/items/1' })).body.calls, 2);
+  });
+
+  it('sends an ETag and Last-Modified and answers matching conditional requests with a 304', async () => {
+    const app = createApp();
+    const miss = await request(app, { url: '/items/1' });
+    const etag = String(miss.headers['etag']);
+    assert.equal(etag, entityTag(miss.text));
+    assert.equal(miss.headers['last-modified'], new Date(clock.now()).toUTCString());
+
+    const notModified = await request(app, { url: '/items/1', headers: { 'if-none-match': etag } });
+    assert.equal(notModified.status, 304);
+    assert.equal(notModified.text, '');
+    assert.equal(notModified.headers['etag'], etag);
+
+    const sinceStored = await request(app, { url: '/items/1', headers: { 'if-modified-since': String(miss.headers['last-modified']) } });
+    assert.equal(sinceStored.status, 304);
+
+    const changed = await request(app, { url: '/items/1', headers: { 'if-none-match': '"other"' } });
+    assert.equal(changed.status, 200);
+    assert.equal(calls, 1);
+  });
+
+  it('answers a conditional request with a 304 on a miss when the new response matches', async () => {
+    const app = createApp();
+    const revalidated = await request(app, { url: '/versioned', headers: { 'if-none-match': '"v1"' } });
+    assert.equal(revalidated.status, 304);
+    assert.equal(revalidated.headers['x-cache'], 'MISS');
+
+    // The full response was still stored
+    assert.equal((await request(app, { url: '/versioned' })).body.calls, 1);
+  });
+
+  it('keeps validators the route set', async () => {
+    const app = createApp();
+    await request(app, { url: '/versioned' });
+    const hit = await request(app, { url: '/versioned' });
+
+    assert.equal(hit.headers['etag'], '"v1"');
+    assert.equal(hit.headers['last-modified'], 'Sun, 01 Jan 2023 00:00:00 GMT');
+  });
+
+  it('refreshes on request no-cache and bypasses the cache on no-store', async () => {
+    const app = createApp();
+    await request(app, { url: '/items/1' });
+
+    const refreshed = await request(app, { url: '/items/1', headers: { 'cache-control': 'no-cache' } });
+    assert.equal(refreshed.headers['x-cache'], 'MISS');
+    assert.equal(refreshed.body.calls, 2);
+    assert.equal((await request(app, { url: '/items/1' })).body.calls, 2, 'the refreshed response is stored');
+
+    const bypassed = await request(app, { url: '/items/1', headers: { 'cache-control': 'no-store' } });
+    assert.equal(bypassed.headers['x-cache'], 'BYPASS');
+    assert.equal(bypassed.body.calls, 3);
+    assert.equal((await request(app, { url: '/items/1' })).body.calls, 2, 'no-store responses are not stored');
+  });
+
+  it('keys entries by path and query, in any parameter order', async () => {
+    const app = createApp();
+    await request(app, { url: '/items/1?a=1&b=2' });
+    assert.equal((await request(app, { url: '/items/1?b=2&a=1' })).headers['x-cache'], 'HIT');
+    assert.equal((await request(app, { url: '/items/1' })).headers['x-cache'], 'MISS');
+    assert.deepEqual((await cache.keys()).sort(), ['response:/items/1', 'response:/items/1?a=1&b=2']);
+  });
+
+  it('keys only on the selected query parameters', async () => {
+    const app = createApp({ query: ['page'] });
+    await request(app, { url: '/items/1?page=2&utm_source=mail' });
+    assert.equal((await request(app, { url: '/items/1?page=2' })).headers['x-cache'], 'HIT');
+    assert.equal((await request(app, { url: '/items/1?page=3' })).headers['x-cache'], 'MISS');
+
+    const ignoringQuery = createApp({ query: false });
+    await request(ignoringQuery, { url: '/items/2?page=9' });
+    assert.equal((await request(ignoringQuery, { url: '/items/2?page=1' })).headers['x-cache'], 'HIT');
+  });
+
+  it('varies on the selected request headers', async () => {
+    const app = createApp({ vary: ['Accept-Language'] });
+    const english = await request(app, { url: '/items/1', headers: { 'accept-language': 'en' } });
+    assert.equal(english.headers['vary'], 'Accept-Language');
+
+    const french = await request(app, { url: '/items/1', headers: { 'accept-language': 'fr' } });
+    assert.equal(french.headers['x-cache'], 'MISS');
+    assert.equal(french.body.language, 'fr');
+
+    const englishAgain = await request(app, { url: '/items/1', headers: { 'accept-language': 'en' } });
+    assert.equal(englishAgain.headers['x-cache'], 'HIT');
+    assert.equal(englishAgain.headers['vary'], 'Accept-Language');
+    assert.equal(englishAgain.body.language, 'en');
+  });
+
+  it('keeps the content type of text responses', async () => {
+    const app = createApp();
+    await request(app, { url: '/text' });
+    const hit = await request(app, { url: '/text' });
+
+    assert.equal(hit.text, 'call 1');
+    assert.match(String(hit.headers['content-type']), /^text\/plain/);
+  });
+
+  it('stores neither errors, private responses nor other methods', async () => {
+    const app = createApp();
+    await request(app, { url: '/items/missing' });
+    await request(app, { url: '/private' });
+    await request(app, { method: 'POST', url: '/items', body: {} });
+
+    assert.equal((await request(app, { url: '/items/missing' })).headers['x-cache'], 'MISS');
+    assert.equal((await request(app, { url: '/private' })).headers['cache-control'], 'private');
+    const post = await request(app, { method: 'POST', url: '/items', body: {} });
+    assert.equal(post.headers['x-cache'], undefined);
+    assert.equal(calls, 6);
+  });
+
+  it('takes a custom key and tags', async () => {
+    const app = createApp({ key: req => `item:${req.path}`, tags: req => [`item:${req.params.id ?? 'all'}`, 'items'] });
+
+    await request(app, { url: '/items/1?ignored=1' });
+    assert.deepEqual(await cache.keys(), ['item:/items/1']);
+    assert.equal((await request(app, { url: '/items/1?ignored=2' })).headers['x-cache'], 'HIT');
+
+    assert.equal(cache.deleteByTag('items'), 1);
+    assert.equal((await request(app, { url: '/items/1' })).headers['x-cache'], 'MISS');
+  });
+
+  it('sends responses the store refuses uncached', async () => {
+    cache.destroy();
+    // Too small for the 1 KB body; LRUCache.set() throws for it
+    cache = new LRUCache<CachedResponse>(100, 60000, 0, 0, 200, undefined, 'lru', clock);
+    const app = createApp();
+
+    const first = await request(app, { url: '/large' });
+    assert.equal(first.status, 200);
+    assert.equal(first.body.padding.length, 1024);
+    const second = await request(app, { url: '/large' });
+    assert.equal(second.status, 200);
+    assert.equal(second.headers['x-cache'], 'MISS');
+    assert.equal(calls, 2);
+  });
+
+  it('rejects an invalid TTL or tags when created', () => {
+    for (const ttlMs of [0, -1, NaN, Infinity]) {
+      assert.throws(() => cacheMiddleware(cache, { ttlMs }), /Cache TTL must be a positive number/, String(ttlMs));
+    }
+    assert.throws(() => cacheMiddleware(cache, { tags: ['items', ''] }), /Cache tags must be non-empty strings/);
+  });
+
+  it('sends the response uncached when the tags function throws', async () => {
+    const app = createApp({
+      tags: () => {
+        throw new Error('no tags');
+      }
+    });
+
+    assert.equal((await request(app, { url: '/items/1' })).status, 200);
+    assert.equal((await request(app, { url: '/items/1' })).headers['x-cache'], 'MISS');
+  });
+
+  it('passes requests through when the store fails', async () => {
+    const app = createApp();
+    cache.getEntry = () => {
+      throw new Error('store down');
+    };
+
+    const response = await request(app, { url: '/items/1' });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers['x-cache'], 'MISS');
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { Request } from 'express';
+import {
+  ClientIdExtractor,
+  IpExtractorOptions,
+  apiKeyExtractor,
+  bearerSubjectExtractor,
+  chainExtractors,
+  compositeExtractor,
+  headerExtractor,
+  ipExtractor,
+  routeExtractor
+} from '../../src/middleware/clientIdentity';
+
+const SECRET = 'test-secret';
+
+// Just enough of an Express request for the extractors: req.get, the socket
+// peer, the method and the path
+function identify(
+  extractor: ClientIdExtractor,
+  request: { remoteAddress?: string; headers?: Record<string, string>; url?: string } = {}
+): string | null {
+  const headers = new Map(Object.entries(request.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value]));
+  const req = {
+    method: 'GET',
+    baseUrl: '',
+    path: (request.url ?? '/').split('?')[0],
+    socket: { remoteAddress: request.remoteAddress ?? '127.0.0.1' },
+    get: (name: string) => headers.get(name.toLowerCase())
+  };
+  return extractor(req as unknown as Request);
+}
+
+function signJwt(claims: Record<string, unknown>, secret: string = SECRET, alg: string = 'HS256'): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg, typ: 'JWT' })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`;
+}
+
+describe('ipExtractor spoofing matrix', () => {
+  const cases: Array<{
+    name: string;
+    options: IpExtractorOptions;
+    remoteAddress: string;
+    forwardedFor?: string;
+    expected: string | null;
+  }> = [
+    { name: 'ignores X-Forwarded-For when no proxy is trusted', options: {}, remoteAddress: '198.51.100.7', forwardedFor: '203.0.113.9', expected: 'ip:198.51.100.7' },
+    { name: 'ignores X-Forwarded-For from an untrusted peer', options: { trustedProxies: ['loopback'] }, remoteAddress: '198.51.100.7', forwardedFor: '203.0.113.9', expected: 'ip:198.51.100.7' },
+    { name: 'believes a trusted proxy', options: { trustedProxies: ['loopback'] }, remoteAddress: '127.0.0.1', forwardedFor: '203.0.113.9', expected: 'ip:203.0.113.9' },
+    { name: 'skips addresses a client prepended through a trusted proxy', options: { trustedProxies: ['10.0.0.0/8'] }, remoteAddress: '10.0.0.1', forwardedFor: '6.6.6.6, 203.0.113.9', expected: 'ip:203.0.113.9' },
+    { name: 'walks a chain of trusted proxies', options: { trustedProxies: ['uniquelocal'] }, remoteAddress: '10.0.0.1', forwardedFor: '203.0.113.9, 192.168.1.1', expected: 'ip:203.0.113.9' },
+    { name: "doesn't trust a proxy address the client forged", options: { trustedProxies: ['10.0.0.0/8'] }, remoteAddress: '10.0.0.1', forwardedFor: '10.0.0.5, 203.0.113.9', expected: 'ip:203.0.113.9' },
+    { name: 'stops at the first untrusted hop even if every hop is forwarded', options: { trustedProxies: ['10.0.0.0/8'] }, remoteAddress: '10.0.0.1', forwardedFor: '10.0.0.3, 10.0.0.2', expected: 'ip:10.0.0.3' },
+    { name: 'counts a fixed number of hops', options: { hops: 1 }, remoteAddress: '10.0.0.1', forwardedFor: '6.6.6.6, 203.0.113.9', expected: 'ip:203.0.113.9' },
+    { name: 'uses the socket address when a hop count has no header', options: { hops: 1 }, remoteAddress: '198.51.100.7', expected: 'ip:198.51.100.7' },
+    { name: "doesn't read past the header with too many hops", options: { hops: 3 }, remoteAddress: '10.0.0.1', forwardedFor: '203.0.113.9', expected: 'ip:203.0.113.9' },
+    { name: 'treats IPv4-mapped IPv6 peers as IPv4', options: { trustedProxies: ['loopback'] }, remoteAddress: '::ffff:127.0.0.1', forwardedFor: '203.0.113.9', expected: 'ip:203.0.113.9' },
+    { name: 'matches IPv6 trusted ranges', options: { trustedProxies: ['loopback'] }, remoteAddress: '::1', forwardedFor: '2001:db8::1', expected: 'ip:2001:db8::1' },
+    { name: 'returns null for a forwarded value that is not an address', options: { trustedProxies: ['loopback'] }, remoteAddress: '127.0.0.1', forwardedFor: 'unknown', expected: null }
+  ];
+
+  for (const testCase of cases) {
+    it(testCase.name, () => {
+      const headers: Record<string, string> = testCase.forwardedFor ? { 'X-Forwarded-For': testCase.forwardedFor } : {};
+      assert.equal(identify(ipExtractor(testCase.options), { remoteAddress: testCase.remoteAddress, headers }), testCase.expected);
+    });
+  }
+
+  it('rejects malformed trusted proxy entries', () => {
+    assert.throws(() => ipExtractor({ trustedProxies: ['not-a-cidr'] }), /Invalid trusted proxy address/);
+    assert.throws(() => ipExtractor({ trustedProxies: ['10.0.0.0/33'] }), /Invalid trusted proxy prefix length/);
+  });
+});
+
+describe('apiKeyExtractor', () => {
+  const extractor = apiKeyExtractor(['key-1']);
+
+  it('identifies known keys by a hash, never the raw key', () => {
+    const id = identify(extractor, { headers: { 'X-API-Key': 'key-1' } });
+    assert.match(id ?? '', /^apikey:[0-9a-f]{16}$/);
+    assert.ok(!id?.includes('key-1'));
+  });
+
+  it("doesn't give unknown keys their own bucket", () => {
+    assert.equal(identify(extractor, { headers: { 'X-API-Key': 'made-up' } }), null);
+  });
+});
+
+describe('bearerSubjectExtractor', () => {
+  const extractor = bearerSubjectExtractor(SECRET);
+  const bearer = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+  it('uses the subject of a verified token', () => {
+    assert.equal(identify(extractor, bearer(signJwt({ sub: 'alice' }))), 'sub:alice');
+  });
+
+  const rejected: Array<[string, string]> = [
+    ['a token signed with another secret', signJwt({ sub: 'alice' }, 'other-secret')],
+    ['a token with alg none', signJwt({ sub: 'alice' }, SECRET, 'none')],
+    ['an expired token', signJwt({ sub: 'alice', exp: Math.floor(Date.now() / 1000) - 60 })],
+    ['a token not valid yet', signJwt({ sub: 'alice', nbf: Math.floor(Date.now() / 1000) + 60 })],
+    ['a token without a subject', signJwt({ name: 'alice' })],
+    ['a malformed token', 'not.a.jwt']
+  ];
+  for (const [name, token] of rejected) {
+    it(`ignores ${name}`, () => {
+      assert.equal(identify(extractor, bearer(token)), null);
+    });
+  }
+});
+
+describe('extractor composition', () => {
+  const chain = chainExtractors(apiKeyExtractor(['key-1']), bearerSubjectExtractor(SECRET), ipExtractor());
+
+  it('falls back in order: API key, bearer subject, IP', () => {
+    const token = signJwt({ sub: 'alice' });
+    const withBoth = { remoteAddress: '198.51.100.7', headers: { 'X-API-Key': 'key-1', Authorization: `Bearer ${token}` } };
+    const withUnknownKey = { remoteAddress: '198.51.100.7', headers: { 'X-API-Key': 'made-up', Authorization: `Bearer ${token}` } };
+    const withBadToken = { remoteAddress: '198.51.100.7', headers: { Authorization: 'Bearer forged' } };
+
+    assert.match(identify(chain, withBoth) ?? '', /^apikey:/);
+    assert.equal(identify(chain, withUnknownKey), 'sub:alice');
+    assert.equal(identify(chain, withBadToken), 'ip:198.51.100.7');
+  });
+
+  it('builds composite keys only when every part resolves', () => {
+    const perRoute = compositeExtractor(ipExtractor(), routeExtractor());
+    assert.equal(identify(perRoute, { remoteAddress: '198.51.100.7', url: '/users/1?x=1' }), 'ip:198.51.100.7|route:GET /users/1');
+    assert.equal(identify(compositeExtractor(ipExtractor(), headerExtractor('X-User-Id'))), null);
+  });
+
+  it('reads gateway headers', () => {
+    assert.equal(identify(headerExtractor('X-User-Id'), { headers: { 'X-User-Id': '42' } }), 'x-user-id:42');
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AimdLimit, FixedLimit, GradientLimit, createConcurrencyLimit } from '../../src/services/concurrency';
+import { ConcurrencyLimit, ConcurrencyLimitName } from '../../src/types';
+
+const fast = (inFlight: number) => ({ latencyMs: 200, dropped: false, inFlight });
+
+describe('FixedLimit', () => {
+  it('never changes', () => {
+    const limit: ConcurrencyLimit = new FixedLimit(3);
+    limit.onSample({ latencyMs: 5000, dropped: true, inFlight: 3 });
+    assert.equal(limit.limit, 3);
+  });
+});
+
+describe('AimdLimit', () => {
+  it('grows by one per fast job while the limit is in use, up to the maximum', () => {
+    const limit = new AimdLimit(1, 1, 3);
+    for (let i = 0; i < 5; i++) {
+      limit.onSample(fast(limit.limit));
+    }
+    assert.equal(limit.limit, 3);
+  });
+
+  it("doesn't grow an unused limit", () => {
+    const limit = new AimdLimit(4, 1, 10);
+    limit.onSample(fast(1));
+    assert.equal(limit.limit, 4);
+  });
+
+  it('backs off multiplicatively on slow or dropped jobs', () => {
+    const limit = new AimdLimit(10, 1, 10, 1000, 0.5);
+    limit.onSample({ latencyMs: 1500, dropped: false, inFlight: 10 });
+    assert.equal(limit.limit, 5);
+    limit.onSample({ latencyMs: 100, dropped: true, inFlight: 5 });
+    assert.equal(limit.limit, 2);
+  });
+});
+
+describe('GradientLimit', () => {
+  it('grows while latency holds steady', () => {
+    const limit = new GradientLimit(1, 1, 8);
+    for (let i = 0; i < 50; i++) {
+      limit.onSample(fast(limit.limit));
+    }
+    assert.equal(limit.limit, 8);
+  });
+
+  it('shrinks when latency rises well past its average', () => {
+    const limit = new GradientLimit(8, 1, 8);
+    for (let i = 0; i < 20; i++) {
+      limit.onSample(fast(8));
+    }
+    // Before the slow-moving average catches up with the new latency
+    for (let i = 0; i < 3; i++) {
+      limit.onSample({ latencyMs: 2000, dropped: false, inFlight: 8 });
+    }
+    assert.ok(limit.limit < 8, `limit ${limit.limit}`);
+  });
+});
+
+describe('createConcurrencyLimit', () => {
+  it('starts adaptive limits at 1 and fixed ones at the maximum', () => {
+    assert.equal(createConcurrencyLimit('aimd', 4).limit, 1);
+    assert.equal(createConcurrencyLimit('gradient', 4).limit, 1);
+    assert.equal(createConcurrencyLimit('fixed', 4).limit, 4);
+    assert.throws(() => createConcurrencyLimit('vegas' as ConcurrencyLimitName, 4), /Unknown concurrency limit/);
+  });
+});
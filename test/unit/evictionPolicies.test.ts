@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createEvictionPolicy } from '../../src/cache/eviction';
+import { EvictionPolicyName } from '../../src/types';
+
+const POLICIES: EvictionPolicyName[] = ['lru', 'lfu', 'w-tinylfu', 'arc', 'fifo'];
+
+describe('eviction policies', () => {
+  for (const name of POLICIES) {
+    describe(name, () => {
+      it('only evicts resident keys, never the incoming one', () => {
+        const policy = createEvictionPolicy(name, 3);
+        ['a', 'b', 'c'].forEach(key => policy.onInsert(key));
+        policy.onAccess('a');
+
+        const victim = policy.evict('d');
+        assert.ok(victim !== undefined && ['a', 'b', 'c'].includes(victim), `unexpected victim ${victim}`);
+      });
+
+      it('forgets removed keys', () => {
+        const policy = createEvictionPolicy(name, 2);
+        policy.onInsert('a');
+        policy.onInsert('b');
+        policy.onRemove('a');
+
+        assert.equal(policy.evict('c'), 'b');
+      });
+
+      it('has nothing to evict after clear()', () => {
+        const policy = createEvictionPolicy(name, 2);
+        policy.onInsert('a');
+        policy.clear();
+
+        assert.equal(policy.evict('b'), undefined);
+      });
+    });
+  }
+
+  it('lru evicts the least recently used key', () => {
+    const policy = createEvictionPolicy('lru', 3);
+    ['a', 'b', 'c'].forEach(key => policy.onInsert(key));
+    policy.onAccess('a');
+    assert.equal(policy.evict('d'), 'b');
+  });
+
+  it('lfu evicts the least frequently used key', () => {
+    const policy = createEvictionPolicy('lfu', 3);
+    ['a', 'b', 'c'].forEach(key => policy.onInsert(key));
+    policy.onAccess('a');
+    policy.onAccess('b');
+    policy.onAccess('a');
+    assert.equal(policy.evict('d'), 'c');
+  });
+
+  it('fifo evicts in insertion order regardless of use', () => {
+    const policy = createEvictionPolicy('fifo', 3);
+    ['a', 'b', 'c'].forEach(key => policy.onInsert(key));
+    policy.onAccess('a');
+    assert.equal(policy.evict('d'), 'a');
+  });
+
+  it('rejects unknown policy names', () => {
+    assert.throws(() => createEvictionPolicy('random' as EvictionPolicyName, 1), /Unknown eviction policy/);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_REDACTED_FIELDS, configureLogging, createLogger, jsonSink } from '../../src/logging/logger';
+import { currentLogContext, runWithLogContext } from '../../src/logging/context';
+import { LogRecord } from '../../src/types';
+
+describe('Logger', () => {
+  let records: LogRecord[];
+
+  beforeEach(() => {
+    records = [];
+    configureLogging({ level: 'info', levels: {}, redact: DEFAULT_REDACTED_FIELDS, sink: record => records.push(record) });
+  });
+
+  afterEach(() => {
+    configureLogging({ level: 'info', levels: {}, redact: DEFAULT_REDACTED_FIELDS, sink: jsonSink });
+  });
+
+  it('writes records at or above the level', () => {
+    const log = createLogger('cache');
+    log.debug('hidden');
+    log.info('Stored', { key: 'user:1' });
+    log.error('Failed');
+
+    assert.deepEqual(records.map(record => [record.level, record.module, record.msg]), [
+      ['info', 'cache', 'Stored'],
+      ['error', 'cache', 'Failed']
+    ]);
+    assert.equal(records[0]?.key, 'user:1');
+    assert.ok(!Number.isNaN(Date.parse(records[0]!.time)));
+  });
+
+  it('takes per-module levels over the default', () => {
+    configureLogging({ level: 'warn', levels: { database: 'debug', cache: 'silent' } });
+    createLogger('database').debug('Queued job');
+    createLogger('cache').error('Store down');
+    createLogger('http').info('Request completed');
+    createLogger('http').warn('Slow request');
+
+    assert.deepEqual(records.map(record => record.msg), ['Queued job', 'Slow request']);
+    assert.equal(createLogger('database').isEnabled('debug'), true);
+  });
+
+  it('redacts fields at any depth, ignoring case', () => {
+    createLogger('database').info('Created user', {
+      user: { id: 4, name: 'Ada', Email: 'ada@example.com' },
+      headers: [{ authorization: 'Bearer abc' }]
+    });
+
+    assert.deepEqual(records[0]?.user, { id: 4, name: 'Ada', Email: '[redacted]' });
+    assert.deepEqual(records[0]?.headers, [{ authorization: '[redacted]' }]);
+
+    configureLogging({ redact: ['name'] });
+    createLogger('database').info('Created user', { user: { name: 'Ada', email: 'ada@example.com' } });
+    assert.deepEqual(records[1]?.user, { name: '[redacted]', email: 'ada@example.com' });
+  });
+
+  it('serializes errors, dates and cycles', () => {
+    const cyclic: Record<string, unknown> = { id: 1 };
+    cyclic.self = cyclic;
+    const at = new Date(Date.UTC(2024, 0, 1));
+    const shared = ['a'];
+    createLogger('http').error('Request failed', { error: new TypeError('boom'), cyclic, at, pair: [shared, shared] });
+
+    const error = records[0]?.error as { name: string; message: string; stack: string };
+    assert.equal(error.name, 'TypeError');
+    assert.equal(error.message, 'boom');
+    assert.match(error.stack, /TypeError: boom/);
+    assert.deepEqual(records[0]?.cyclic, { id: 1, self: '[circular]' });
+    assert.deepEqual(records[0]?.pair, [['a'], ['a']]);
+    assert.equal(JSON.parse(JSON.stringify(records[0])).at, '2024-01-01T00:00:00.000Z');
+  });
+
+  it('adds the context of the current request to every record', async () => {
+    const log = createLogger('http');
+    await runWithLogContext({ requestId: 'req-1' }, async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      log.info('Inside');
+      runWithLogContext({ jobId: 'job-1', requestIds: ['req-1'] }, () => log.info('In a job'));
+    });
+    log.info('Outside');
+
+    assert.equal(records[0]?.requestId, 'req-1');
+    assert.deepEqual([records[1]?.requestId, records[1]?.jobId, records[1]?.requestIds], [undefined, 'job-1', ['req-1']]);
+    assert.equal(records[2]?.requestId, undefined);
+    assert.equal(currentLogContext(), undefined);
+  });
+
+  it('never throws from a failing sink', () => {
+    configureLogging({ sink: () => { throw new Error('disk full'); } });
+    assert.doesNotThrow(() => createLogger('http').error('Lost'));
+  });
+});
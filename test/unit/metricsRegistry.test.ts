@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MetricsRegistry } from '../../src/metrics/registry';
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms in OpenMetrics format', async () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('requests', 'Requests served', ['route']);
+    const idle = registry.counter('idle', 'Never incremented');
+    const size = registry.gauge('size', 'Entries');
+    const latency = registry.histogram('latency_seconds', 'Latency', [], [0.1, 1]);
+
+    requests.inc({ route: '/users' });
+    requests.inc({ route: '/users' }, 2);
+    size.set(7);
+    latency.observe(0.05);
+    latency.observe(0.5);
+
+    assert.equal(await registry.render(), [
+      '# TYPE requests counter',
+      '# HELP requests Requests served',
+      'requests_total{route="/users"} 3',
+      '# TYPE idle counter',
+      '# HELP idle Never incremented',
+      'idle_total 0',
+      '# TYPE size gauge',
+      '# HELP size Entries',
+      'size 7',
+      '# TYPE latency_seconds histogram',
+      '# HELP latency_seconds Latency',
+      'latency_seconds_bucket{le="0.1"} 1',
+      'latency_seconds_bucket{le="1"} 2',
+      'latency_seconds_bucket{le="+Inf"} 2',
+      'latency_seconds_sum 0.55',
+      'latency_seconds_count 2',
+      '# EOF',
+      ''
+    ].join('\n'));
+  });
+
+  it('escapes label values', async () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('info', 'Info', ['value']).set(1, { value: 'say "hi"\\\n' });
+
+    assert.match(await registry.render(), /^info\{value="say \\"hi\\"\\\\\\n"\} 1$/m);
+  });
+
+  it('runs collectors before each scrape', async () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge('scrapes', 'Scrapes so far');
+    let scrapes = 0;
+    registry.addCollector(async () => gauge.set(++scrapes));
+
+    await registry.render();
+    assert.match(await registry.render(), /^scrapes 2$/m);
+  });
+
+  it('refuses to register a name twice', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('requests', 'Requests');
+    assert.throws(() => registry.gauge('requests', 'Requests'), /already registered/);
+  });
+});
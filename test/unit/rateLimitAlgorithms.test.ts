@@ -0,0 +1,87 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRateLimitStrategy } from '../../src/middleware/algorithms';
+import { RateLimitAlgorithmName, RateLimitQuota, RateLimitStrategy } from '../../src/types';
+import { RATE_LIMIT_STORES, RateLimitStoreFixture } from '../support/rateLimitStores';
+
+const ALGORITHMS: RateLimitAlgorithmName[] = [
+  'fixed-window',
+  'sliding-window-log',
+  'sliding-window-counter',
+  'token-bucket',
+  'gcra'
+];
+const QUOTA: RateLimitQuota = { limit: 5, windowMs: 1000 };
+
+for (const algorithm of ALGORITHMS) {
+  for (const [storeName, createFixture] of Object.entries(RATE_LIMIT_STORES)) {
+    describe(`${algorithm} on the ${storeName} store`, () => {
+      let fixture: RateLimitStoreFixture;
+      let strategy: RateLimitStrategy;
+
+      beforeEach(async () => {
+        fixture = await createFixture();
+        strategy = createRateLimitStrategy(algorithm, fixture.clock);
+      });
+
+      afterEach(async () => {
+        await fixture.teardown();
+      });
+
+      const consume = (cost: number = 1) => strategy.consume(fixture.store, 'client', QUOTA, cost);
+      const used = async () => {
+        const state = await strategy.inspect(fixture.store, 'client', QUOTA);
+        return state ? strategy.usage(state, QUOTA, fixture.clock.now()).used : 0;
+      };
+
+      it('allows the limit, then rejects with a retry delay', async () => {
+        for (let i = 0; i < QUOTA.limit; i++) {
+          assert.equal((await consume()).allowed, true, `request ${i + 1}`);
+        }
+
+        const rejected = await consume();
+        assert.equal(rejected.allowed, false);
+        assert.equal(rejected.remaining, 0);
+        assert.ok(rejected.retryAfterMs > 0 && rejected.retryAfterMs <= QUOTA.windowMs, `retryAfterMs ${rejected.retryAfterMs}`);
+      });
+
+      it("doesn't charge rejected requests", async () => {
+        for (let i = 0; i < QUOTA.limit + 3; i++) {
+          await consume();
+        }
+        assert.equal(await used(), QUOTA.limit);
+      });
+
+      it('allows requests again once the window has passed', async () => {
+        for (let i = 0; i < QUOTA.limit; i++) {
+          await consume();
+        }
+        await fixture.clock.advance(QUOTA.windowMs * 2);
+
+        assert.equal((await consume()).allowed, true);
+      });
+
+      it('charges the cost and refunds it on release', async () => {
+        assert.equal((await consume(3)).remaining, 2);
+        assert.equal((await consume(3)).allowed, false);
+
+        await strategy.release(fixture.store, 'client', QUOTA, 3);
+        assert.equal(await used(), 0);
+      });
+
+      it('forgets the client on reset', async () => {
+        await consume(QUOTA.limit);
+        await strategy.reset(fixture.store, 'client', QUOTA);
+
+        assert.equal(await strategy.inspect(fixture.store, 'client', QUOTA), null);
+        assert.equal((await consume()).allowed, true);
+      });
+    });
+  }
+}
+
+describe('createRateLimitStrategy', () => {
+  it('rejects unknown algorithms', () => {
+    assert.throws(() => createRateLimitStrategy('leaky' as RateLimitAlgorithmName), /Unknown rate limit algorithm/);
+  });
+});
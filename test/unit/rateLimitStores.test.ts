@@ -0,0 +1,123 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { RATE_LIMIT_STORES, RateLimitStoreFixture } from '../support/rateLimitStores';
+
+interface CounterState {
+  count: number;
+}
+
+// Conformance suite every RateLimitStore must pass
+for (const [name, createFixture] of Object.entries(RATE_LIMIT_STORES)) {
+  describe(`RateLimitStore conformance: ${name}`, () => {
+    let fixture: RateLimitStoreFixture;
+
+    beforeEach(async () => {
+      fixture = await createFixture();
+    });
+
+    afterEach(async () => {
+      await fixture.teardown();
+    });
+
+    it('starts a window on the first increment and counts within it', async () => {
+      const { store, clock } = fixture;
+      const start = clock.now();
+
+      assert.deepEqual(await store.increment('k', 1000), { count: 1, resetTime: start + 1000 });
+      await clock.advance(400);
+      assert.deepEqual(await store.increment('k', 1000, 3), { count: 4, resetTime: start + 1000 });
+      assert.deepEqual(await store.get('k'), { count: 4, resetTime: start + 1000 });
+    });
+
+    it('increments atomically under concurrency', async () => {
+      const counters = await Promise.all(Array.from({ length: 20 }, () => fixture.store.increment('k', 1000)));
+      assert.deepEqual(counters.map(counter => counter.count).sort((a, b) => a - b), Array.from({ length: 20 }, (_, i) => i + 1));
+    });
+
+    it('resets the counter once the window has passed', async () => {
+      const { store, clock } = fixture;
+      await store.increment('k', 1000, 5);
+
+      await clock.advance(1000);
+      assert.equal(await store.get('k'), null);
+      assert.deepEqual(await store.increment('k', 1000), { count: 1, resetTime: clock.now() + 1000 });
+    });
+
+    it('decrements within the window', async () => {
+      const { store } = fixture;
+      await store.increment('k', 1000, 3);
+      await store.decrement('k', 1000, 2);
+
+      assert.equal((await store.get('k'))?.count, 1);
+    });
+
+    it("doesn't keep a counter refunded after its window forever", async () => {
+      const { store, clock } = fixture;
+      await store.increment('k', 1000);
+      await clock.advance(1000);
+      await store.decrement('k', 1000);
+
+      await clock.advance(1000);
+      assert.equal(await store.get('k'), null);
+      assert.deepEqual(await store.keys(), []);
+    });
+
+    it('returns null for unknown keys', async () => {
+      assert.equal(await fixture.store.get('missing'), null);
+      assert.equal(await fixture.store.getState('missing'), null);
+    });
+
+    it('runs update() read-modify-writes atomically and passes the clock time', async () => {
+      const { store, clock } = fixture;
+      const seen: number[] = [];
+
+      await Promise.all(Array.from({ length: 10 }, () => store.update<CounterState, void>('state', (current, now) => {
+        seen.push(now);
+        return { state: { count: (current?.count ?? 0) + 1 }, ttlMs: 1000, result: undefined };
+      })));
+
+      assert.deepEqual(await store.getState<CounterState>('state'), { count: 10 });
+      assert.ok(seen.every(now => now === clock.now()));
+    });
+
+    it('expires state after its TTL', async () => {
+      const { store, clock } = fixture;
+      const result = await store.update<CounterState, string>('state', () => ({ state: { count: 1 }, ttlMs: 500, result: 'done' }));
+      assert.equal(result, 'done');
+
+      await clock.advance(499);
+      assert.deepEqual(await store.getState<CounterState>('state'), { count: 1 });
+      await clock.advance(1);
+      assert.equal(await store.getState('state'), null);
+    });
+
+    it('lists live keys by prefix', async () => {
+      const { store, clock } = fixture;
+      await store.increment('a:1', 1000);
+      await store.increment('a:2', 100);
+      await store.update('a:state', () => ({ state: {}, ttlMs: 1000, result: undefined }));
+      await store.increment('b:1', 1000);
+
+      assert.deepEqual((await store.keys('a:')).sort(), ['a:1', 'a:2', 'a:state']);
+      await clock.advance(100);
+      assert.deepEqual((await store.keys('a:')).sort(), ['a:1', 'a:state']);
+      assert.equal((await store.keys()).length, 3);
+    });
+
+    it('resets single keys and prefixes', async () => {
+      const { store } = fixture;
+      await store.increment('a:1', 1000);
+      await store.update('a:state', () => ({ state: {}, ttlMs: 1000, result: undefined }));
+      await store.increment('b:1', 1000);
+
+      await store.resetKey('a:1');
+      assert.equal(await store.get('a:1'), null);
+
+      await store.resetAll('a:');
+      assert.deepEqual(await store.keys(), ['b:1']);
+
+      await store.resetAll();
+      assert.deepEqual(await store.keys(), []);
+    });
+  });
+}
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { backoffDelay, retryWithBackoff } from '../../src/services/retry';
+import { RetryOptions } from '../../src/types';
+import { FakeClock, settle } from '../support/FakeClock';
+
+const OPTIONS: RetryOptions = { attempts: 4, baseDelayMs: 100, maxDelayMs: 250 };
+
+describe('backoffDelay', () => {
+  it('draws from an exponentially growing, capped range', () => {
+    for (let i = 0; i < 100; i++) {
+      assert.ok(backoffDelay(1, OPTIONS) < 100);
+      assert.ok(backoffDelay(2, OPTIONS) < 200);
+      assert.ok(backoffDelay(5, OPTIONS) < 250);
+      assert.ok(backoffDelay(1, OPTIONS) >= 0);
+    }
+  });
+});
+
+describe('retryWithBackoff', () => {
+  it('retries until the task succeeds', async () => {
+    const clock = new FakeClock();
+    const attempts: number[] = [];
+    const result = retryWithBackoff(async attempt => {
+      attempts.push(attempt);
+      if (attempt < 3) throw new Error(`attempt ${attempt} failed`);
+      return 'done';
+    }, OPTIONS, undefined, undefined, clock);
+
+    await clock.advance(500);
+    assert.equal(await result, 'done');
+    assert.deepEqual(attempts, [1, 2, 3]);
+  });
+
+  it('throws the last error once the attempts run out', async () => {
+    const clock = new FakeClock();
+    let calls = 0;
+    const result = retryWithBackoff(async attempt => {
+      calls++;
+      throw new Error(`attempt ${attempt} failed`);
+    }, OPTIONS, undefined, undefined, clock);
+    result.catch(() => {});
+
+    await clock.advance(1000);
+    await assert.rejects(result, /attempt 4 failed/);
+    assert.equal(calls, 4);
+  });
+
+  it("doesn't retry errors shouldRetry rejects", async () => {
+    let calls = 0;
+    await assert.rejects(retryWithBackoff(async () => {
+      calls++;
+      throw new TypeError('bad input');
+    }, OPTIONS, error => !(error instanceof TypeError)), TypeError);
+    assert.equal(calls, 1);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const clock = new FakeClock();
+    const controller = new AbortController();
+    let calls = 0;
+    const result = retryWithBackoff(async () => {
+      calls++;
+      throw new Error('failed');
+    }, OPTIONS, undefined, controller.signal, clock);
+    result.catch(() => {});
+
+    await settle();
+    controller.abort();
+    await assert.rejects(result, { name: 'AbortError' });
+    assert.equal(calls, 1);
+    assert.equal(clock.pendingTimers(), 0);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeUserCursor, encodeUserCursor, queryUsers } from '../../src/repositories/userQuery';
+import { User, UserListQuery } from '../../src/types';
+
+const users: User[] = [
+  { id: 1, name: 'Carol', email: 'carol@example.com', createdAt: new Date('2024-01-03') },
+  { id: 2, name: 'alice', email: 'alice@example.org', createdAt: new Date('2024-01-01') },
+  { id: 3, name: 'Bob', email: 'bob@example.com', createdAt: new Date('2024-01-02') },
+  { id: 4, name: 'Alice', email: 'alice2@example.com', createdAt: new Date('2024-01-04') }
+];
+
+const query = (overrides: Partial<UserListQuery> = {}): UserListQuery => ({ sort: 'id', order: 'asc', limit: 20, ...overrides });
+
+// Follows nextCursor until the last page
+function allPages(base: UserListQuery): number[][] {
+  const pages: number[][] = [];
+  let after: UserListQuery['after'];
+  do {
+    const page = queryUsers(users, after ? { ...base, after } : base);
+    pages.push(page.users.map(user => user.id));
+    after = page.nextCursor ? decodeUserCursor(page.nextCursor) ?? undefined : undefined;
+  } while (after);
+  return pages;
+}
+
+describe('queryUsers', () => {
+  it('filters by case-insensitive substrings of name and email', () => {
+    assert.deepEqual(queryUsers(users, query({ name: 'ALI' })).users.map(user => user.id), [2, 4]);
+    assert.deepEqual(queryUsers(users, query({ name: 'ali', email: '.org' })).users.map(user => user.id), [2]);
+  });
+
+  it('sorts case-insensitively and breaks ties by id', () => {
+    assert.deepEqual(queryUsers(users, query({ sort: 'name' })).users.map(user => user.id), [2, 4, 3, 1]);
+    assert.deepEqual(queryUsers(users, query({ sort: 'name', order: 'desc' })).users.map(user => user.id), [1, 3, 4, 2]);
+    assert.deepEqual(queryUsers(users, query({ sort: 'createdAt' })).users.map(user => user.id), [2, 3, 1, 4]);
+  });
+
+  it('pages through every user exactly once', () => {
+    assert.deepEqual(allPages(query({ sort: 'name', limit: 3 })), [[2, 4, 3], [1]]);
+    assert.deepEqual(allPages(query({ sort: 'email', order: 'desc', limit: 2 })), [[1, 3], [2, 4]]);
+  });
+
+  it('has no next cursor when the page is the last one', () => {
+    assert.equal(queryUsers(users, query({ limit: 4 })).nextCursor, null);
+  });
+
+  it('returns copies of the users', () => {
+    const [first] = queryUsers(users, query()).users;
+    first!.name = 'Changed';
+    assert.equal(users[0]!.name, 'Carol');
+  });
+});
+
+describe('user cursors', () => {
+  it('round-trip through encode and decode', () => {
+    const encoded = encodeUserCursor({ sort: 'name', order: 'desc' }, users[0]!);
+    assert.deepEqual(decodeUserCursor(encoded), { sort: 'name', order: 'desc', value: 'carol', id: 1 });
+  });
+
+  it('reject anything this module did not produce', () => {
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+    assert.equal(decodeUserCursor('not a cursor'), null);
+    assert.equal(decodeUserCursor(encode({ sort: 'password', order: 'asc', value: 1, id: 1 })), null);
+    assert.equal(decodeUserCursor(encode({ sort: 'id', order: 'up', value: 1, id: 1 })), null);
+    assert.equal(decodeUserCursor(encode({ sort: 'id', order: 'asc', value: {}, id: 1 })), null);
+    assert.equal(decodeUserCursor(encode({ sort: 'id', order: 'asc', value: 1, id: 1.5 })), null);
+  });
+});
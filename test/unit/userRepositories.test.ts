@@ -0,0 +1,162 @@
+import { describe, it, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { InMemoryUserRepository } from '../../src/repositories/InMemoryUserRepository';
+import { FileUserRepository } from '../../src/repositories/FileUserRepository';
+import { UserListQuery, UserRepository } from '../../src/types';
+
+const byId = (a: { id: number }, b: { id: number }) => a.id - b.id;
+const query = (overrides: Partial<UserListQuery> = {}): UserListQuery => ({ sort: 'id', order: 'asc', limit: 20, ...overrides });
+
+interface RepositoryFixture {
+  repository: UserRepository;
+  // A fresh instance over the same storage, as after a restart
+  reopen(): Promise<UserRepository>;
+  teardown(): Promise<void>;
+}
+
+const REPOSITORIES: Record<string, () => Promise<RepositoryFixture>> = {
+  'in-memory': async () => {
+    const repository = new InMemoryUserRepository();
+    return { repository, reopen: async () => repository, teardown: () => repository.close() };
+  },
+  file: async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-'));
+    const file = path.join(dir, 'users.jsonl');
+    const opened: FileUserRepository[] = [new FileUserRepository(file)];
+    return {
+      repository: opened[0]!,
+      reopen: async () => {
+        await opened[opened.length - 1]!.close();
+        opened.push(new FileUserRepository(file));
+        return opened[opened.length - 1]!;
+      },
+      teardown: async () => {
+        await Promise.all(opened.map(repository => repository.close()));
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    };
+  }
+};
+
+// Conformance suite every UserRepository must pass
+for (const [name, createFixture] of Object.entries(REPOSITORIES)) {
+  describe(`UserRepository conformance: ${name}`, () => {
+    let fixture: RepositoryFixture;
+    let repository: UserRepository;
+
+    beforeEach(async () => {
+      fixture = await createFixture();
+      repository = fixture.repository;
+    });
+
+    afterEach(async () => {
+      await fixture.teardown();
+    });
+
+    it('starts from the seed users', async () => {
+      const users = (await repository.findAll()).sort(byId);
+      assert.deepEqual(users.map(user => user.name), ['John Doe', 'Jane Smith', 'Alice Johnson']);
+      assert.equal((await repository.findById(2))?.email, 'jane@example.com');
+      assert.equal(await repository.findById(99), null);
+    });
+
+    it('finds the users that exist among several ids', async () => {
+      const users = await repository.findByIds([3, 99, 1]);
+      assert.deepEqual(users.map(user => user.id).sort(), [1, 3]);
+    });
+
+    it('creates users with increasing ids', async () => {
+      const first = await repository.create({ name: 'Ada', email: 'ada@example.com' });
+      const second = await repository.create({ name: 'Grace', email: 'grace@example.com' });
+
+      assert.equal(first.id, 4);
+      assert.equal(second.id, 5);
+      assert.ok(first.createdAt instanceof Date);
+      assert.deepEqual(await repository.findById(4), first);
+    });
+
+    it('updates users and reports missing ones', async () => {
+      const updated = await repository.update(1, { email: 'john.doe@example.com' });
+
+      assert.equal(updated?.name, 'John Doe');
+      assert.equal(updated?.email, 'john.doe@example.com');
+      assert.ok(updated?.updatedAt instanceof Date);
+      assert.equal(await repository.update(99, { name: 'Nobody' }), null);
+    });
+
+    it('deletes users without reusing their ids', async () => {
+      const created = await repository.create({ name: 'Ada', email: 'ada@example.com' });
+      assert.equal(await repository.delete(created.id), true);
+      assert.equal(await repository.delete(created.id), false);
+      assert.equal(await repository.findById(created.id), null);
+
+      const reopened = await fixture.reopen();
+      assert.equal((await reopened.create({ name: 'Grace', email: 'grace@example.com' })).id, created.id + 1);
+    });
+
+    it('hands out copies, not its own records', async () => {
+      const user = await repository.findById(1);
+      user!.name = 'Changed';
+      assert.equal((await repository.findById(1))?.name, 'John Doe');
+    });
+
+    it('keeps every write across a reopen', async () => {
+      const created = await repository.create({ name: 'Ada', email: 'ada@example.com' });
+      await repository.update(created.id, { name: 'Ada Lovelace' });
+      await repository.delete(2);
+
+      const reopened = await fixture.reopen();
+      const users = (await reopened.findAll()).sort(byId);
+      assert.deepEqual(users.map(user => user.name), ['John Doe', 'Alice Johnson', 'Ada Lovelace']);
+      assert.ok((await reopened.findById(created.id))?.createdAt instanceof Date);
+    });
+
+    it('serializes concurrent writes', async () => {
+      const created = await Promise.all(Array.from({ length: 10 }, (_, i) =>
+        repository.create({ name: `User ${i}`, email: `user${i}@example.com` })));
+      assert.deepEqual(created.map(user => user.id), Array.from({ length: 10 }, (_, i) => i + 4));
+    });
+
+    it('lists with filters, sorting and cursor pagination', async () => {
+      await repository.create({ name: 'Alice Cooper', email: 'cooper@example.com' });
+
+      const filtered = await repository.list(query({ name: 'alice' }));
+      assert.deepEqual(filtered.users.map(user => user.id), [3, 4]);
+
+      const firstPage = await repository.list(query({ sort: 'name', order: 'desc', limit: 2 }));
+      assert.deepEqual(firstPage.users.map(user => user.name), ['John Doe', 'Jane Smith']);
+      assert.ok(firstPage.nextCursor);
+    });
+
+    it('goes back to the seed users on reset', async () => {
+      await repository.create({ name: 'Ada', email: 'ada@example.com' });
+      await repository.delete(1);
+      await repository.reset();
+
+      assert.deepEqual((await repository.findAll()).map(user => user.id).sort(), [1, 2, 3]);
+      assert.equal((await repository.create({ name: 'Ada', email: 'ada@example.com' })).id, 4);
+    });
+  });
+}
+
+describe('FileUserRepository', () => {
+  it('drops a torn last line left by a crash', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'users-'));
+    const file = path.join(dir, 'users.jsonl');
+    try {
+      const repository = new FileUserRepository(file);
+      await repository.create({ name: 'Ada', email: 'ada@example.com' });
+      await repository.close();
+      await fs.appendFile(file, '{"op":"create","user":{"id":5,"na');
+
+      const reopened = new FileUserRepository(file);
+      assert.deepEqual((await reopened.findAll()).map(user => user.id).sort(), [1, 2, 3, 4]);
+      await reopened.close();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});